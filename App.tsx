@@ -2,59 +2,299 @@
 
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import type { LocationData } from './types';
-import { LOCATIONS } from './constants';
+import { createPortal } from 'react-dom';
+import L from './utils/leaflet';
+import type { Applicant, BasemapSettings, BudgetSettings, CatchmentCell, DistanceUnit, EmbedCommand, ImportIssue, HeatmapSettings, LocationChange, LocationData, LocationDraft, LocationFilter, LocationSortKey, MapView, MarkerStyle, MeasureMode, MeasurePoint, OptimiseResult, OptimiseSettings, PersistedMapState, Radii, RadiusPreset, Scenario, ScenarioSettings, SelectMode, SymbologySettings, Zone } from './types';
+import { DEFAULT_RADIUS_KM, LOCATIONS, NEAREST_HOTSPOT_COUNT, RISING_HOTSPOT_COUNT } from './constants';
+import { escapeHtml } from './utils/html';
+import DataImporter from './components/DataImporter';
+import ExportMenu from './components/ExportMenu';
+import ShareLinkButton from './components/ShareLinkButton';
+import OverlapPanel from './components/OverlapPanel';
+import BudgetPlanner from './components/BudgetPlanner';
+import { allocateBudget, DEFAULT_BUDGET_SETTINGS } from './utils/budget';
+import SymbologyControls from './components/SymbologyControls';
+import { classFor, classifyValues, DEFAULT_SYMBOLOGY } from './utils/classify';
+import HeatmapControls from './components/HeatmapControls';
+import { buildHeatPoints, DEFAULT_HEATMAP_SETTINGS, gradientStops } from './utils/heatmap';
+import { lookupOutcode, nearestLocations, parseOutcode } from './utils/postcodes';
+import { coverageStats, findOverlaps, intersectionPolygon, shrinkToRemoveOverlaps } from './utils/coverage';
+import { decodeShareHash, encodeShareHash, loadInitialMapState, sanitizeMapState, saveStoredMapState } from './utils/mapState';
+import EditPanel from './components/EditPanel';
+import { useHistory } from './hooks/useHistory';
+import { diffLocations, loadStoredDataset, nextLocationId, revertChange, saveStoredDataset } from './utils/editing';
+import ScenarioPanel from './components/ScenarioPanel';
+import ScenarioCompare from './components/ScenarioCompare';
+import { createScenario, loadScenarios, saveScenarios, scenarioMatches } from './utils/scenarios';
+import LocationPopup from './components/LocationPopup';
+import MarkerIcon, { DEFAULT_MARKER_STYLE, markerContainerSize } from './components/MarkerIcon';
+import MapLegend from './components/MapLegend';
+import LocationFilters from './components/LocationFilters';
+import LocationList from './components/LocationList';
+import { applyLocationFilter, DEFAULT_LOCATION_FILTER, groupByRegion, regionCounts, sortLocations } from './utils/regions';
+import TimelinePanel from './components/TimelinePanel';
+import { applyTimeline, historyDates, needAt, needTrend, risingHotspots } from './utils/history';
+import ApplicantPanel from './components/ApplicantPanel';
+import { matchApplicants } from './utils/applicants';
+import ZonePanel from './components/ZonePanel';
+import { coverageZones, createZone, sanitizeZones, zoneStats } from './utils/zones';
+import OptimisePanel from './components/OptimisePanel';
+import { DEFAULT_OPTIMISE_SETTINGS, optimise } from './utils/optimise';
+import CatchmentPanel from './components/CatchmentPanel';
+import { catchmentCells, coverageGaps } from './utils/catchments';
+import CampaignReport from './components/CampaignReport';
+import { renderMapSnapshot } from './utils/mapSnapshot';
+import BasemapControls from './components/BasemapControls';
+import { createTileLayer, loadBasemapSettings, saveBasemapSettings } from './utils/basemaps';
+import RadiusPresetPanel, { type PresetTarget } from './components/RadiusPresetPanel';
+import MeasurePanel from './components/MeasurePanel';
+import { clampRadiusKm, createRadiusPreset, formatArea, formatDistance, fromUnit, loadDistanceUnit, loadRadiusPresets, radiusRange, roundTo, saveDistanceUnit, saveRadiusPresets, toUnit, UNIT_OPTIONS } from './utils/units';
+import { legLengthsKm, polygonAreaKm2 } from './utils/geo';
+import { datasetFromEmbed, isHostMessage, parseEmbedCommand, parseEmbedOptions, postToHost } from './utils/embed';
+import SelectionToolbar from './components/SelectionToolbar';
+import { coverageBounds, locationsInShape, scaleRadii } from './utils/selection';
+import { tagCounts, withoutTag, withTag } from './utils/tags';
 
-// Declare Leaflet globally to avoid TypeScript errors with CDN version
-declare const L: any;
 
-// A type for the global window function to bridge Leaflet popup and React state
-declare global {
-    interface Window {
-        updateRadius: (id: number, radius: number) => void;
-    }
+// How long each week is shown while the demand timeline plays
+const TIMELINE_STEP_MS = 800;
+// How close (in screen pixels) a ruler click must land to a hotspot to snap to it
+const MEASURE_SNAP_PX = 16;
+
+// Elements Leaflet shows for each marker, filled in by React through portals
+interface MarkerElements {
+    icon: HTMLDivElement;
+    popup: HTMLDivElement;
 }
 
 const App: React.FC = () => {
-    const [searchTerm, setSearchTerm] = useState('');
-    const [radii, setRadii] = useState<{ [key: number]: number }>({});
-    const [isSynced, setIsSynced] = useState<boolean>(false);
-    const [uniformRadius, setUniformRadius] = useState<number>(10);
-    const [showLabels, setShowLabels] = useState<boolean>(true);
-    const [showHeatmap, setShowHeatmap] = useState<boolean>(false);
-    const [isClusteringEnabled, setIsClusteringEnabled] = useState<boolean>(true);
-
-    const mapRef = useRef<any>(null);
+    // Embed mode hides the control panel and makes the map read-only; it is fixed for the page's lifetime
+    const [embed] = useState(() => parseEmbedOptions(window.location.search));
+    // The dataset and edits from the last session, if any; an embedded map starts from the built-in one
+    const [storedDataset] = useState(() => (embed.enabled ? null : loadStoredDataset()));
+    // Restored once from the share link or localStorage, falling back to defaults
+    const [initialState] = useState(() =>
+        loadInitialMapState((storedDataset?.edited ?? LOCATIONS).map(loc => loc.id), !embed.enabled));
+
+    // The imported (or built-in) dataset, and the edited copy with its undo/redo history
+    const [originalLocations, setOriginalLocations] = useState<LocationData[]>(storedDataset?.original ?? LOCATIONS);
+    const locationHistory = useHistory<LocationData[]>(storedDataset?.edited ?? LOCATIONS);
+    const locations = locationHistory.present;
+    const [searchTerm, setSearchTerm] = useState(initialState.searchTerm);
+    const [locationFilter, setLocationFilter] = useState<LocationFilter>(DEFAULT_LOCATION_FILTER);
+    const [sortKey, setSortKey] = useState<LocationSortKey>('need');
+    const [radii, setRadii] = useState<Radii>(initialState.radii);
+    const [isSynced, setIsSynced] = useState<boolean>(initialState.isSynced);
+    const [uniformRadius, setUniformRadius] = useState<number>(initialState.uniformRadius);
+    const [showLabels, setShowLabels] = useState<boolean>(initialState.showLabels);
+    const [showHeatmap, setShowHeatmap] = useState<boolean>(initialState.showHeatmap);
+    const [isClusteringEnabled, setIsClusteringEnabled] = useState<boolean>(initialState.isClusteringEnabled);
+    const [mapView, setMapView] = useState<MapView>(initialState.view);
+    const [selectedId, setSelectedId] = useState<number | null>(initialState.selectedId);
+    const [showOverlaps, setShowOverlaps] = useState<boolean>(false);
+    const [showBudget, setShowBudget] = useState<boolean>(false);
+    const [budgetSettings, setBudgetSettings] = useState<BudgetSettings>(DEFAULT_BUDGET_SETTINGS);
+    const [symbology, setSymbology] = useState<SymbologySettings>(DEFAULT_SYMBOLOGY);
+    const [heatmapSettings, setHeatmapSettings] = useState<HeatmapSettings>(DEFAULT_HEATMAP_SETTINGS);
+    const [isEditMode, setIsEditMode] = useState<boolean>(false);
+    const [draft, setDraft] = useState<LocationDraft | null>(null);
+    const [scenarios, setScenarios] = useState<Scenario[]>(() => loadScenarios());
+    const [activeScenarioId, setActiveScenarioId] = useState<string | null>(null);
+    const [comparePair, setComparePair] = useState<[Scenario, Scenario] | null>(null);
+    const [markerElements, setMarkerElements] = useState<{ [key: number]: MarkerElements }>({});
+    const [legendElement, setLegendElement] = useState<HTMLDivElement | null>(null);
+    const [timelineIndex, setTimelineIndex] = useState<number | null>(null);
+    const [isPlaying, setIsPlaying] = useState<boolean>(false);
+    const [applicants, setApplicants] = useState<Applicant[]>([]);
+    const [showUnmatched, setShowUnmatched] = useState<boolean>(false);
+    const [zones, setZones] = useState<Zone[]>(initialState.zones);
+    const [optimiseSettings, setOptimiseSettings] = useState<OptimiseSettings>(DEFAULT_OPTIMISE_SETTINGS);
+    const [optimiseResult, setOptimiseResult] = useState<OptimiseResult | null>(null);
+    const [showCatchments, setShowCatchments] = useState<boolean>(false);
+    const [selectedCellId, setSelectedCellId] = useState<number | null>(null);
+    const [showReport, setShowReport] = useState<boolean>(false);
+    const [basemap, setBasemap] = useState<BasemapSettings>(() => loadBasemapSettings());
+    const [unit, setUnit] = useState<DistanceUnit>(() => loadDistanceUnit());
+    const [radiusPresets, setRadiusPresets] = useState<RadiusPreset[]>(() => loadRadiusPresets());
+    const [measureMode, setMeasureMode] = useState<MeasureMode | null>(null);
+    const [measurePoints, setMeasurePoints] = useState<MeasurePoint[]>([]);
+    // Hotspots picked for bulk edits with the selection toolbar (not the open popup, which is selectedId)
+    const [selectionIds, setSelectionIds] = useState<Set<number>>(new Set());
+    const [selectMode, setSelectMode] = useState<SelectMode | null>(null);
+    const [selectionElement, setSelectionElement] = useState<HTMLDivElement | null>(null);
+
+    const mapRef = useRef<L.Map | null>(null);
     const mapContainerRef = useRef<HTMLDivElement>(null);
-    const layerRefs = useRef<{ [key: number]: { marker: any; circle: any } }>({});
-    const markerClusterGroupRef = useRef<any>(null);
-    const heatmapLayerRef = useRef<any>(null);
-
-    const filteredLocations = useMemo(() =>
-        LOCATIONS.filter(location =>
-            location.city.toLowerCase().includes(searchTerm.toLowerCase())
-        ), [searchTerm]);
-
-    // Helper function to create marker icons dynamically
-    const createMarkerIcon = (loc: LocationData, labelsVisible: boolean) => {
-        const labelHtml = labelsVisible
-            ? `<div class="absolute" style="left: 100%; top: 50%; transform: translateY(-50%); margin-left: 4px;">
-                <div class="bg-white text-gray-800 text-xs font-semibold px-2 py-1 rounded-md shadow-md whitespace-nowrap">${loc.city}</div>
-              </div>`
-            : '';
-
-        // The dot is w-3 h-3 (12px) + border-2 (4px) = 16px. We use a container to center it.
-        // The label is positioned relative to this container.
+    const layerRefs = useRef<{ [key: number]: { marker: L.Marker; circle: L.Circle } }>({});
+    const markerClusterGroupRef = useRef<L.MarkerClusterGroup | null>(null);
+    const heatmapLayerRef = useRef<L.HeatLayer | null>(null);
+    const overlapLayerRef = useRef<L.LayerGroup | null>(null);
+    const searchMarkerRef = useRef<L.CircleMarker | null>(null);
+    // Set once the user edits the search, so a postcode restored from a link doesn't override the restored view
+    const searchTouchedRef = useRef(false);
+    // Latest dataset, radii and edit mode for Leaflet event handlers registered once
+    const locationsRef = useRef<LocationData[]>(locations);
+    locationsRef.current = locations;
+    const radiiRef = useRef<Radii>(radii);
+    radiiRef.current = radii;
+    const isEditModeRef = useRef(isEditMode);
+    isEditModeRef.current = isEditMode;
+    const draftMarkerRef = useRef<L.CircleMarker | null>(null);
+    const unmatchedLayerRef = useRef<L.LayerGroup | null>(null);
+    const zoneLayerRef = useRef<L.FeatureGroup | null>(null);
+    // Which zone each drawn layer shows, for the Leaflet.draw edit and delete events
+    const zoneIdsRef = useRef(new WeakMap<L.Layer, string>());
+    const previewLayerRef = useRef<L.LayerGroup | null>(null);
+    const catchmentLayerRef = useRef<L.LayerGroup | null>(null);
+    const tileLayerRef = useRef<L.TileLayer | null>(null);
+    // Set while a zone is being drawn, so the click that finishes it doesn't also start a hotspot
+    const isDrawingRef = useRef(false);
+    const measureLayerRef = useRef<L.LayerGroup | null>(null);
+    // Ruler mode for Leaflet event handlers registered once; while it is on, clicks add points instead of hotspots
+    const measureModeRef = useRef(measureMode);
+    measureModeRef.current = measureMode;
+    // The box or lasso being drawn for the selection toolbar; while set, a finished shape selects instead of adding a zone
+    const selectDrawRef = useRef<L.Draw.Feature | null>(null);
+
+    // With the timeline on, need everywhere below is the need in the selected week
+    const timelineDates = useMemo(() => historyDates(locations), [locations]);
+    const timelineDate = timelineIndex !== null && timelineDates.length > 0
+        ? timelineDates[Math.min(timelineIndex, timelineDates.length - 1)]
+        : null;
+    const timelineLocations = useMemo(() => applyTimeline(locations, timelineDate), [locations, timelineDate]);
+
+    // A postcode or outcode in the search box lists the nearest hotspots instead of matching city names
+    const searchOutcode = useMemo(() => lookupOutcode(searchTerm), [searchTerm]);
+    const nearestToOutcode = useMemo(() =>
+        searchOutcode ? nearestLocations(timelineLocations, searchOutcode.lat, searchOutcode.lng, NEAREST_HOTSPOT_COUNT) : [],
+        [timelineLocations, searchOutcode]);
+
+    // The search and the region, need and tag filters together decide which hotspots are listed and drawn on the map
+    const filteredLocations = useMemo(() => applyLocationFilter(
+        searchOutcode
+            ? nearestToOutcode.map(({ loc }) => loc)
+            : timelineLocations.filter(location =>
+                location.city.toLowerCase().includes(searchTerm.toLowerCase())
+            ), locationFilter), [timelineLocations, searchTerm, searchOutcode, nearestToOutcode, locationFilter]);
+    // Listed hotspots for the selection box and lasso, which only pick what is drawn on the map
+    const listedRef = useRef<LocationData[]>(filteredLocations);
+    listedRef.current = filteredLocations;
+
+    // The plan is what is listed less the hotspots excluded from it; exports, report, optimiser and coverage use it
+    const planLocations = useMemo(() => filteredLocations.filter(loc => !loc.excluded), [filteredLocations]);
+    const includedLocations = useMemo(() => locations.filter(loc => !loc.excluded), [locations]);
+    const availableTags = useMemo(() => tagCounts(locations), [locations]);
+    const selectedLocations = useMemo(() => locations.filter(loc => selectionIds.has(loc.id)), [locations, selectionIds]);
+
+    const trends = useMemo(() => new Map(locations.map(loc => [loc.id, needTrend(loc, timelineDate)])), [locations, timelineDate]);
+    const rising = useMemo(() => risingHotspots(filteredLocations, timelineDate, RISING_HOTSPOT_COUNT), [filteredLocations, timelineDate]);
+    const risingIds = useMemo(() => new Set(rising.map(({ location }) => location.id)), [rising]);
+    const timelineTotals = useMemo(() => {
+        const index = timelineDate ? timelineDates.indexOf(timelineDate) : -1;
+        return {
+            total: filteredLocations.reduce((sum, loc) => sum + loc.courierNeed, 0),
+            previous: index > 0 ? filteredLocations.reduce((sum, loc) => sum + needAt(loc, timelineDates[index - 1]), 0) : null,
+        };
+    }, [filteredLocations, timelineDate, timelineDates]);
+
+    const availableRegions = useMemo(() => regionCounts(locations), [locations]);
+    const locationGroups = useMemo(() =>
+        groupByRegion(sortLocations(filteredLocations, sortKey, mapView), radii, DEFAULT_RADIUS_KM),
+        [filteredLocations, sortKey, mapView, radii]);
+
+    // Zones drawn to stand in for a hotspot's circle
+    const replacementZones = useMemo(() => coverageZones(zones), [zones]);
+
+    // Overlap analysis only runs while the mode is on and skips circles a zone replaces; radii may briefly lag a freshly imported dataset
+    const circleLocations = useMemo(() =>
+        includedLocations.filter(loc => !replacementZones.has(loc.id)),
+        [includedLocations, replacementZones]);
+    const overlapPairs = useMemo(() =>
+        showOverlaps && circleLocations.every(loc => radii[loc.id] !== undefined) ? findOverlaps(circleLocations, radii) : [],
+        [showOverlaps, circleLocations, radii]);
+    const overlapStats = useMemo(() =>
+        showOverlaps ? coverageStats(circleLocations.filter(loc => radii[loc.id] !== undefined), radii, overlapPairs) : null,
+        [showOverlaps, circleLocations, radii, overlapPairs]);
+
+    // Applicants are matched against the current coverage of every hotspot in the plan, whatever the sidebar filter
+    const applicantMatching = useMemo(() =>
+        matchApplicants(applicants, includedLocations, radii, replacementZones),
+        [applicants, includedLocations, radii, replacementZones]);
+
+    // Catchments and gaps are drawn for the listed hotspots in the plan; gaps follow radii and replacement zones too
+    const catchments = useMemo(() => (showCatchments ? catchmentCells(planLocations) : []), [showCatchments, planLocations]);
+    const gaps = useMemo(() =>
+        showCatchments ? coverageGaps(planLocations, radii, replacementZones) : null,
+        [showCatchments, planLocations, radii, replacementZones]);
+
+    // Budget allocation follows the sidebar search and filters, so planning a region means filtering to it.
+    // Excluded hotspots stay in the table so they can be included again from there.
+    const budgetPlan = useMemo(() =>
+        showBudget ? allocateBudget(filteredLocations, budgetSettings) : null,
+        [showBudget, filteredLocations, budgetSettings]);
+
+    // Need classes are computed from the filtered hotspots so the symbology adapts to what's listed
+    const needClasses = useMemo(() =>
+        symbology.encoding === 'none' ? [] : classifyValues(filteredLocations.map(loc => loc.courierNeed), symbology.method, symbology.classCount),
+        [filteredLocations, symbology]);
+
+    // Marker dot size and colour per hotspot. Need classes drive both; while planning a budget,
+    // size follows each hotspot's share of the spend instead.
+    const markerStyles = useMemo(() => {
+        const styles: { [key: number]: MarkerStyle } = {};
+        const useClassColour = symbology.encoding === 'colour' || symbology.encoding === 'both';
+        const useClassSize = symbology.encoding === 'size' || symbology.encoding === 'both';
+        timelineLocations.forEach(loc => {
+            const needClass = classFor(loc.courierNeed, needClasses);
+            styles[loc.id] = {
+                size: useClassSize && needClass ? needClass.size : 12,
+                color: useClassColour && needClass ? needClass.color : '#dc2626',
+            };
+        });
+        if (budgetPlan) {
+            const maxSpend = Math.max(1, ...budgetPlan.locations.map(row => row.spend));
+            const planned = new Map<number, number>(budgetPlan.locations.map(row => [row.location.id, row.spend]));
+            locations.forEach(loc => {
+                styles[loc.id].size = Math.round(6 + 22 * Math.sqrt((planned.get(loc.id) ?? 0) / maxSpend));
+            });
+        }
+        return styles;
+    }, [locations, timelineLocations, needClasses, symbology.encoding, budgetPlan]);
+
+    const persistedState = useMemo<PersistedMapState>(() => ({
+        radii, isSynced, uniformRadius, showLabels, showHeatmap, isClusteringEnabled, searchTerm, view: mapView, selectedId, zones,
+    }), [radii, isSynced, uniformRadius, showLabels, showHeatmap, isClusteringEnabled, searchTerm, mapView, selectedId, zones]);
+
+    const currentScenarioSettings = useMemo<ScenarioSettings>(() => ({
+        radii, isSynced, uniformRadius, showLabels, showHeatmap, isClusteringEnabled, zones,
+    }), [radii, isSynced, uniformRadius, showLabels, showHeatmap, isClusteringEnabled, zones]);
+
+    const activeScenario = scenarios.find(scenario => scenario.id === activeScenarioId);
+    const isScenarioModified = !!activeScenario && !scenarioMatches(activeScenario, currentScenarioSettings);
+
+    // Describes the search and filters for the report header, so readers know what was left out
+    const filterSummary = useMemo(() => {
+        const parts: string[] = [];
+        if (searchTerm.trim()) parts.push(searchOutcode ? `nearest to ${searchOutcode.outcode}` : `search "${searchTerm.trim()}"`);
+        if (locationFilter.regions.length > 0) parts.push(`regions ${locationFilter.regions.join(', ')}`);
+        if (locationFilter.minNeed !== null || locationFilter.maxNeed !== null) {
+            parts.push(`need ${locationFilter.minNeed ?? 0}–${locationFilter.maxNeed ?? 'any'}`);
+        }
+        if (locationFilter.ids !== null) parts.push(`${locationFilter.ids.length} picked hotspots`);
+        if (locationFilter.tags.length > 0) parts.push(`tagged ${locationFilter.tags.join(' or ')}`);
+        const excludedCount = filteredLocations.length - planLocations.length;
+        if (excludedCount > 0) parts.push(`${excludedCount} excluded from the plan`);
+        return parts;
+    }, [searchTerm, searchOutcode, locationFilter, filteredLocations, planLocations]);
+
+    // Helper function to wrap a marker's React-rendered icon element in a Leaflet icon of the right size
+    const createMarkerIcon = (element: HTMLDivElement, style: MarkerStyle = DEFAULT_MARKER_STYLE) => {
+        const containerSize = markerContainerSize(style);
         return L.divIcon({
             className: 'custom-div-icon',
-            html: `
-                <div class="relative" style="width: 16px; height: 16px;">
-                    <div class="bg-red-600 w-3 h-3 rounded-full border-2 border-white shadow-lg absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2"></div>
-                    ${labelHtml}
-                </div>
-            `,
-            iconSize: [16, 16], // Size of the icon container (the dot)
-            iconAnchor: [8, 8],   // Anchor to the center of the dot
+            html: element,
+            iconSize: [containerSize, containerSize], // Size of the icon container (the dot)
+            iconAnchor: [containerSize / 2, containerSize / 2],   // Anchor to the center of the dot
         });
     };
 
@@ -63,121 +303,121 @@ const App: React.FC = () => {
         if (mapRef.current || !mapContainerRef.current) return;
 
         // Initialize map
-        const map = L.map(mapContainerRef.current).setView([54.5, -2.5], 6);
+        const map = L.map(mapContainerRef.current).setView([initialState.view.lat, initialState.view.lng], initialState.view.zoom);
         mapRef.current = map;
 
-        // Add OpenStreetMap tile layer
-        L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
-            attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-        }).addTo(map);
-        
-        // Prepare data for heatmap
-        const heatPoints = LOCATIONS.map(loc => [loc.lat, loc.lng, loc.courierNeed]);
-        
-        // Initialize heatmap layer
-        const heatLayer = L.heatLayer(heatPoints, { 
-            radius: 25, 
-            blur: 15, 
-            maxZoom: 12,
-            gradient: {0.1: 'blue', 0.3: 'lime', 0.5: 'yellow', 1: 'red'} 
+        // Track the view so it can be persisted and shared
+        map.on('moveend', () => {
+            const center = map.getCenter();
+            setMapView({ lat: center.lat, lng: center.lng, zoom: map.getZoom() });
         });
-        heatmapLayerRef.current = heatLayer;
 
         // Initialize marker cluster group
         const markerClusterGroup = L.markerClusterGroup();
         markerClusterGroupRef.current = markerClusterGroup;
+        map.addLayer(markerClusterGroup);
 
-        // Function to handle radius updates from popup sliders
-        window.updateRadius = (id, radius) => {
-            setRadii(prev => ({ ...prev, [id]: Number(radius) }));
-        };
-
-        // Initialize radii state and create map layers for each location
-        const initialRadii: { [key: number]: number } = {};
-        LOCATIONS.forEach(loc => {
-            initialRadii[loc.id] = 10; // Default radius 10km
-
-            const customIcon = createMarkerIcon(loc, true); // Initially show labels
-            
-            const marker = L.marker([loc.lat, loc.lng], { icon: customIcon });
+        // Layer for catchment cells and coverage gaps, kept below the circles
+        catchmentLayerRef.current = L.layerGroup().addTo(map);
 
-            // Create circle overlay, but don't add to map yet
-            const circle = L.circle([loc.lat, loc.lng], {
-                color: '#000',
-                weight: 1,
-                fillColor: '#3b82f6',
-                fillOpacity: 0.3,
-                radius: 10 * 1000, // initial 10km radius in meters
-            });
+        // Layer for highlighting circle intersections in overlap analysis mode
+        overlapLayerRef.current = L.layerGroup().addTo(map);
 
-            // Link circle visibility to marker visibility for clustering
-            marker.on('add', () => {
-                if (!map.hasLayer(circle)) {
-                    map.addLayer(circle);
-                }
-            });
-            marker.on('remove', () => {
-                if (map.hasLayer(circle)) {
-                    map.removeLayer(circle);
-                }
-            });
+        // Layer for the optimiser's proposed circles while they await accept or reject
+        previewLayerRef.current = L.layerGroup().addTo(map);
 
-            // Create popup content with a slider
-            const popupContent = `
-                <div class="w-48">
-                    <h3 class="font-bold text-lg">${loc.city}</h3>
-                    <p class="text-sm text-gray-600">Courier Need: <span class="font-semibold text-blue-600">${loc.courierNeed} sign-ups</span></p>
-                    <div class="mt-2">
-                        <label for="radius-${loc.id}" class="text-sm">Radius: <span id="radius-val-${loc.id}">10</span> km</label>
-                        <input 
-                            type="range" 
-                            id="radius-${loc.id}" 
-                            min="1" max="50" value="10" 
-                            class="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
-                            oninput="document.getElementById('radius-val-${loc.id}').innerText = this.value; window.updateRadius(${loc.id}, this.value)"
-                        />
-                    </div>
-                </div>
-            `;
-            marker.bindPopup(popupContent);
-            
-            layerRefs.current[loc.id] = { marker, circle };
+        // Layer for the ruler's points and lines, above everything else
+        measureLayerRef.current = L.layerGroup().addTo(map);
 
-            // Add marker to the cluster group
-            markerClusterGroup.addLayer(marker);
+        // While measuring, a click adds a point to the ruler; in edit mode, clicking the map starts a new hotspot at that point
+        map.on('click', (e: L.LeafletMouseEvent) => {
+            if (isDrawingRef.current) return;
+            if (measureModeRef.current) {
+                // Snap to a hotspot when the click lands within a marker's width of it
+                const hotspot = locationsRef.current.find(loc =>
+                    map.latLngToContainerPoint([loc.lat, loc.lng]).distanceTo(e.containerPoint) <= MEASURE_SNAP_PX);
+                setMeasurePoints(prev => [...prev, hotspot
+                    ? { lat: hotspot.lat, lng: hotspot.lng, city: hotspot.city }
+                    : { lat: e.latlng.lat, lng: e.latlng.lng }]);
+                return;
+            }
+            if (!isEditModeRef.current) return;
+            setDraft({ city: '', region: '', lat: e.latlng.lat, lng: e.latlng.lng, courierNeed: 0 });
         });
 
-        // Add the cluster group to the map initially
-        map.addLayer(markerClusterGroup);
-        setRadii(initialRadii);
-        
         // Add Legend
-        const legend = L.control({ position: 'bottomleft' });
+        const legend = new L.Control({ position: 'bottomleft' });
         legend.onAdd = function () {
             const div = L.DomUtil.create('div', 'info legend bg-white p-3 rounded-lg shadow-lg w-48');
-            div.innerHTML = `
-                <h4 class="font-bold mb-2 text-gray-800">Legend</h4>
-                <div class="flex items-center mb-1">
-                    <div class="bg-red-600 w-4 h-4 rounded-full border-2 border-white mr-2"></div>
-                    <span class="text-sm text-gray-700">Courier Hotspot</span>
-                </div>
-                <div class="flex items-center mb-2">
-                    <div class="w-4 h-4 rounded-full mr-2" style="background-color: rgba(59, 130, 246, 0.3); border: 1px solid #000;"></div>
-                    <span class="text-sm text-gray-700">Coverage Radius</span>
-                </div>
-                <div>
-                    <span class="font-semibold text-gray-700 text-sm">Heatmap Intensity</span>
-                    <div class="w-full h-4 mt-1 rounded" style="background: linear-gradient(to right, blue, lime, yellow, red);"></div>
-                    <div class="flex justify-between text-xs text-gray-600">
-                        <span>Low</span>
-                        <span>High</span>
-                    </div>
-                </div>
-            `;
+            setLegendElement(div);
             return div;
         };
         legend.addTo(map);
 
+        // Drawn target zones, editable through the Leaflet.draw toolbar
+        const zoneLayer = L.featureGroup().addTo(map);
+        zoneLayerRef.current = zoneLayer;
+        if (!embed.enabled) {
+            map.addControl(new L.Control.Draw({
+                position: 'topleft',
+                draw: {
+                    polygon: { allowIntersection: false, showArea: true },
+                    rectangle: { showArea: true },
+                    polyline: false,
+                    circle: false,
+                    circlemarker: false,
+                    marker: false,
+                },
+                edit: { featureGroup: zoneLayer },
+            }));
+
+            // Selection toolbar, rendered by React like the legend
+            const selectionControl = new L.Control({ position: 'topright' });
+            selectionControl.onAdd = function () {
+                const div = L.DomUtil.create('div');
+                // Clicks and typing in the toolbar mustn't reach the map, where they would pan, zoom or start a hotspot
+                L.DomEvent.disableClickPropagation(div);
+                L.DomEvent.disableScrollPropagation(div);
+                setSelectionElement(div);
+                return div;
+            };
+            selectionControl.addTo(map);
+        }
+        const toPoints = (layer: L.Layer): [number, number][] =>
+            ((layer as L.Polygon).getLatLngs()[0] as L.LatLng[]).map((latlng): [number, number] => [latlng.lat, latlng.lng]);
+        map.on(L.Draw.Event.DRAWSTART, () => { isDrawingRef.current = true; });
+        map.on(L.Draw.Event.DRAWSTOP, () => {
+            setTimeout(() => { isDrawingRef.current = false; }, 0);
+            // A selection box or lasso was finished or cancelled with Esc, so the toolbar's tool turns off
+            if (selectDrawRef.current) setSelectMode(null);
+        });
+        map.on(L.Draw.Event.CREATED, (event) => {
+            const e = event as L.DrawEvents.Created;
+            if (selectDrawRef.current) {
+                const picked = locationsInShape(listedRef.current, toPoints(e.layer)).map(loc => loc.id);
+                setSelectionIds(prev => new Set([...prev, ...picked]));
+                return;
+            }
+            const kind = e.layerType === 'rectangle' ? 'rectangle' : 'polygon';
+            setZones(prev => [...prev, createZone(kind, toPoints(e.layer), prev)]);
+        });
+        map.on(L.Draw.Event.EDITED, (event) => {
+            const edited = new Map<string, [number, number][]>();
+            (event as L.DrawEvents.Edited).layers.eachLayer(layer => {
+                const zoneId = zoneIdsRef.current.get(layer);
+                if (zoneId) edited.set(zoneId, toPoints(layer));
+            });
+            setZones(prev => prev.map(zone => (edited.has(zone.id) ? { ...zone, points: edited.get(zone.id)! } : zone)));
+        });
+        map.on(L.Draw.Event.DELETED, (event) => {
+            const deleted = new Set<string>();
+            (event as L.DrawEvents.Deleted).layers.eachLayer(layer => {
+                const zoneId = zoneIdsRef.current.get(layer);
+                if (zoneId) deleted.add(zoneId);
+            });
+            setZones(prev => prev.filter(zone => !deleted.has(zone.id)));
+        });
+
         // Fullscreen Control
         const fullscreenControl = L.Control.extend({
             onAdd: function() {
@@ -203,11 +443,405 @@ const App: React.FC = () => {
         return () => {
             map.remove();
             mapRef.current = null;
-            window.updateRadius = () => {};
         };
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
 
+    // Effect to keep markers and circles in step with the dataset. Hotspots that are still there keep their layers
+    // and are moved in place, so editing a note doesn't close the open popup; only added and removed ones change.
+    useEffect(() => {
+        if (!mapRef.current || !markerClusterGroupRef.current) return;
+        const map = mapRef.current;
+        const markerClusterGroup = markerClusterGroupRef.current;
+        const liveIds = new Set(locations.map(loc => loc.id));
+        const elements: { [key: number]: MarkerElements } = {};
+        let layersChanged = false;
+
+        // Tear down the layers of hotspots that are gone
+        Object.entries(layerRefs.current).forEach(([id, { marker, circle }]: [string, { marker: L.Marker; circle: L.Circle }]) => {
+            if (liveIds.has(Number(id))) return;
+            marker.off();
+            if (markerClusterGroup.hasLayer(marker)) markerClusterGroup.removeLayer(marker);
+            if (map.hasLayer(marker)) map.removeLayer(marker);
+            if (map.hasLayer(circle)) map.removeLayer(circle);
+            delete layerRefs.current[Number(id)];
+            layersChanged = true;
+        });
+
+        // Keep radii for locations that survived the import or edit (and for deleted ones, so undo restores them);
+        // new ones start at the default (or synced) radius
+        const defaultRadius = isSynced ? uniformRadius : DEFAULT_RADIUS_KM;
+        const nextRadii: Radii = { ...radii };
+        locations.forEach(loc => {
+            const existing = layerRefs.current[loc.id];
+            if (existing && markerElements[loc.id]) {
+                elements[loc.id] = markerElements[loc.id];
+                const position = existing.marker.getLatLng();
+                if (position.lat !== loc.lat || position.lng !== loc.lng) {
+                    existing.marker.setLatLng([loc.lat, loc.lng]);
+                    existing.circle.setLatLng([loc.lat, loc.lng]);
+                }
+                return;
+            }
+            layersChanged = true;
+            nextRadii[loc.id] = radii[loc.id] ?? defaultRadius;
+            const radius = nextRadii[loc.id];
+
+            // Leaflet moves these elements between the map and clusters; React renders into them via portals
+            elements[loc.id] = { icon: document.createElement('div'), popup: document.createElement('div') };
+            const customIcon = createMarkerIcon(elements[loc.id].icon, markerStyles[loc.id]);
+
+            const marker = L.marker([loc.lat, loc.lng], { icon: customIcon, draggable: isEditMode });
+            // The layers outlive edits to the hotspot, so handlers look up its latest fields
+            const currentLocation = () => locationsRef.current.find(l => l.id === loc.id) ?? loc;
+
+            // Create circle overlay, but don't add to map yet
+            const circle = L.circle([loc.lat, loc.lng], {
+                color: '#000',
+                weight: 1,
+                fillColor: '#3b82f6',
+                fillOpacity: 0.3,
+                radius: radius * 1000, // radius in meters
+            });
+
+            // Link circle visibility to marker visibility for clustering
+            marker.on('add', () => {
+                if (!map.hasLayer(circle)) {
+                    map.addLayer(circle);
+                }
+            });
+            marker.on('remove', () => {
+                if (map.hasLayer(circle)) {
+                    map.removeLayer(circle);
+                }
+            });
+
+            marker.bindPopup(elements[loc.id].popup);
+
+            // Dragging (edit mode) moves the circle live and records the new position on drop
+            marker.on('drag', () => circle.setLatLng(marker.getLatLng()));
+            marker.on('dragend', () => {
+                const { lat, lng } = marker.getLatLng();
+                locationHistory.push(
+                    locationsRef.current.map(l => (l.id === loc.id ? { ...l, lat, lng } : l)),
+                    `move ${currentLocation().city}`
+                );
+            });
+
+            // Track the open popup as the selected hotspot
+            marker.on('popupopen', () => setSelectedId(loc.id));
+            marker.on('popupclose', () => setSelectedId(prev => (prev === loc.id ? null : prev)));
+
+            // While measuring, a marker click adds the hotspot to the ruler instead of opening its popup, and a
+            // shift-click adds it to or removes it from the selection. An embedding page hears about every click.
+            marker.on('click', (e: L.LeafletMouseEvent) => {
+                postToHost(embed, { type: 'markerClick', location: currentLocation(), radiusKm: radiiRef.current[loc.id] ?? DEFAULT_RADIUS_KM });
+                if (e.originalEvent.shiftKey && !embed.enabled && !measureModeRef.current) {
+                    marker.closePopup();
+                    setSelectionIds(prev => {
+                        const next = new Set(prev);
+                        if (next.has(loc.id)) next.delete(loc.id);
+                        else next.add(loc.id);
+                        return next;
+                    });
+                    return;
+                }
+                if (!measureModeRef.current) return;
+                marker.closePopup();
+                const { lat, lng, city } = currentLocation();
+                setMeasurePoints(prev => [...prev, { lat, lng, city }]);
+            });
+
+            layerRefs.current[loc.id] = { marker, circle };
+
+            // Add marker to the cluster group, or straight onto the map when clustering is off
+            if (isClusteringEnabled) {
+                markerClusterGroup.addLayer(marker);
+            } else {
+                map.addLayer(marker);
+            }
+        });
+
+        if (!layersChanged) return;
+        setMarkerElements(elements);
+        setRadii(nextRadii);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [locations]);
+
+    // Effect to switch marker dragging with edit mode
+    useEffect(() => {
+        Object.values(layerRefs.current).forEach(({ marker }) => {
+            // Markers inside a cluster have no drag handler yet; the option applies when they are added
+            marker.options.draggable = isEditMode;
+            if (marker.dragging) {
+                if (isEditMode) marker.dragging.enable();
+                else marker.dragging.disable();
+            }
+        });
+        if (!isEditMode) setDraft(null);
+    }, [isEditMode]);
+
+    // Effect to show where a new hotspot will be placed
+    useEffect(() => {
+        if (!mapRef.current) return;
+        if (draftMarkerRef.current) {
+            mapRef.current.removeLayer(draftMarkerRef.current);
+            draftMarkerRef.current = null;
+        }
+        if (draft && draft.id === undefined) {
+            draftMarkerRef.current = L.circleMarker([draft.lat, draft.lng], {
+                radius: 8,
+                color: '#16a34a',
+                weight: 2,
+                fillColor: '#4ade80',
+                fillOpacity: 0.8,
+            }).addTo(mapRef.current);
+        }
+    }, [draft]);
+
+    // Effect for undo/redo keyboard shortcuts in edit mode
+    useEffect(() => {
+        if (!isEditMode) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement;
+            if (!(e.ctrlKey || e.metaKey) || target.closest('input, textarea, select')) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                locationHistory.undo();
+            } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+                e.preventDefault();
+                locationHistory.redo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [isEditMode, locationHistory.undo, locationHistory.redo]);
+
+    const locationChanges = useMemo(() => diffLocations(originalLocations, locations), [originalLocations, locations]);
+
+    const handleSaveDraft = () => {
+        if (!draft) return;
+        const fields = { city: draft.city.trim(), region: draft.region.trim(), lat: draft.lat, lng: draft.lng, courierNeed: draft.courierNeed };
+        if (draft.id === undefined) {
+            const id = nextLocationId(originalLocations, locations);
+            locationHistory.push([...locations, { id, ...fields }], `add ${fields.city}`);
+        } else {
+            const id = draft.id;
+            locationHistory.push(locations.map(loc => (loc.id === id ? { ...loc, ...fields } : loc)), `edit ${fields.city}`);
+        }
+        setDraft(null);
+    };
+
+    const handleRevertChange = (change: LocationChange) =>
+        locationHistory.push(revertChange(locations, change), `revert ${change.location.city}`);
+
+    // Weekly need is an edit like any other, so it can be undone and earlier edits stay listed and revertible.
+    // The original gets the same series, so reverting a hotspot's other changes doesn't drop its history.
+    const handleApplyHistory = (merged: LocationData[]) => {
+        const series = new Map(merged.map(loc => [loc.id, loc.history]));
+        locationHistory.push(merged, 'import weekly need');
+        setOriginalLocations(prev => prev.map(loc => (series.has(loc.id) && series.get(loc.id) !== loc.history ? { ...loc, history: series.get(loc.id) } : loc)));
+    };
+
+    // Replacing the dataset (import or reset) starts a new original and a fresh edit history
+    const handleDatasetReplace = (dataset: LocationData[]) => {
+        setOriginalLocations(dataset);
+        locationHistory.reset(dataset);
+        setDraft(null);
+    };
+
+    // Effect to reopen the hotspot selected in the restored state (runs after the layers exist)
+    useEffect(() => {
+        const layers = initialState.selectedId !== null ? layerRefs.current[initialState.selectedId] : undefined;
+        if (!layers || !markerClusterGroupRef.current) return;
+        const { marker } = layers;
+
+        if (isClusteringEnabled && markerClusterGroupRef.current.getVisibleParent(marker) !== marker) {
+            markerClusterGroupRef.current.zoomToShowLayer(marker, () => marker.openPopup());
+        } else {
+            marker.openPopup();
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    // Effect to save state to localStorage and mirror it into the URL, debounced so slider drags don't flood history.
+    // An embedded map leaves both alone: its plan comes from the host page.
+    useEffect(() => {
+        if (embed.enabled) return;
+        const timer = setTimeout(() => {
+            saveStoredMapState(persistedState);
+            window.history.replaceState(null, '', encodeShareHash(persistedState));
+        }, 300);
+        return () => clearTimeout(timer);
+    }, [persistedState]);
+
+    // Effect to save the dataset and its edits; the unedited built-in dataset needs no stored copy
+    useEffect(() => {
+        if (embed.enabled) return;
+        saveStoredDataset(originalLocations === LOCATIONS && locations === LOCATIONS ? null : { original: originalLocations, edited: locations });
+    }, [originalLocations, locations]);
+
+    // Effect to swap the basemap tiles and remember the choice
+    useEffect(() => {
+        const map = mapRef.current;
+        if (!map) return;
+        tileLayerRef.current?.remove();
+        tileLayerRef.current = createTileLayer(basemap).addTo(map);
+        tileLayerRef.current.bringToBack();
+        saveBasemapSettings(basemap);
+    }, [basemap]);
+
+    // Effect to remember the distance unit and radius presets
+    useEffect(() => {
+        saveDistanceUnit(unit);
+    }, [unit]);
+
+    useEffect(() => {
+        saveRadiusPresets(radiusPresets);
+    }, [radiusPresets]);
+
+    // Effect to draw the ruler: the path (or closed shape when measuring area) with its running total
+    useEffect(() => {
+        if (!measureLayerRef.current) return;
+        const measureLayer = measureLayerRef.current;
+        measureLayer.clearLayers();
+        if (measurePoints.length === 0) return;
+        const latLngs = measurePoints.map(({ lat, lng }): [number, number] => [lat, lng]);
+        const isArea = measureMode === 'area' && latLngs.length > 2;
+        const style = { color: '#111827', weight: 2, dashArray: '4 4', interactive: false };
+        if (isArea) {
+            L.polygon(latLngs, { ...style, fillColor: '#111827', fillOpacity: 0.1 }).addTo(measureLayer);
+        } else {
+            L.polyline(latLngs, style).addTo(measureLayer);
+        }
+        latLngs.forEach(latLng => {
+            L.circleMarker(latLng, { radius: 4, color: '#111827', weight: 2, fillColor: '#fff', fillOpacity: 1, interactive: false }).addTo(measureLayer);
+        });
+        if (latLngs.length > 1) {
+            const total = legLengthsKm(latLngs, isArea).reduce((sum, leg) => sum + leg, 0);
+            const label = isArea ? `${formatArea(polygonAreaKm2(latLngs), unit, 1)}, perimeter ${formatDistance(total, unit)}` : formatDistance(total, unit);
+            L.tooltip({ permanent: true, direction: 'right', offset: [8, 0] })
+                .setLatLng(latLngs[latLngs.length - 1])
+                .setContent(label)
+                .addTo(measureLayer);
+        }
+    }, [measurePoints, measureMode, unit]);
+
+    // Effect to draw a selection box or lasso with Leaflet.draw's own tools; the created event adds what it encloses
+    useEffect(() => {
+        const map = mapRef.current;
+        if (!map || !selectMode) return;
+        const shapeOptions = { color: '#2563eb', weight: 2, dashArray: '4 4', fillColor: '#2563eb', fillOpacity: 0.1 };
+        const handler = selectMode === 'box'
+            ? new L.Draw.Rectangle(map as L.DrawMap, { shapeOptions, showArea: false })
+            : new L.Draw.Polygon(map as L.DrawMap, { shapeOptions, allowIntersection: false, showArea: false });
+        selectDrawRef.current = handler;
+        handler.enable();
+        return () => {
+            selectDrawRef.current = null;
+            handler.disable();
+        };
+    }, [selectMode]);
+
+    // Effect to show a crosshair while the ruler is active
+    useEffect(() => {
+        const container = mapRef.current?.getContainer();
+        if (container) container.style.cursor = measureMode ? 'crosshair' : '';
+    }, [measureMode]);
+
+    // Effect to redraw the zones; those replacing a circle take the coverage style
+    useEffect(() => {
+        if (!zoneLayerRef.current) return;
+        const zoneLayer = zoneLayerRef.current;
+        zoneLayer.clearLayers();
+        zones.forEach(zone => {
+            const style = zone.replacesCircle
+                ? { color: '#000', weight: 1, fillColor: '#3b82f6', fillOpacity: 0.3 }
+                : { color: '#7c3aed', weight: 2, dashArray: '6 4', fillColor: '#7c3aed', fillOpacity: 0.1 };
+            const layer = zone.kind === 'rectangle' ? L.rectangle(L.latLngBounds(zone.points), style) : L.polygon(zone.points, style);
+            const stats = zoneStats(zone, locations);
+            zoneIdsRef.current.set(layer, zone.id);
+            layer.bindTooltip(`${escapeHtml(zone.name)}: ${formatArea(stats.areaKm2, unit)}, need ${stats.courierNeed}`);
+            zoneLayer.addLayer(layer);
+        });
+    }, [zones, locations, unit]);
+
+    // Effect to hide the circles of hotspots whose coverage is a drawn zone, and to outline those left out of the plan
+    useEffect(() => {
+        const excludedIds = new Set(locations.filter(loc => loc.excluded).map(loc => loc.id));
+        Object.entries(layerRefs.current).forEach(([id, { circle }]: [string, { circle: L.Circle }]) => {
+            circle.setStyle(replacementZones.has(Number(id)) ? { opacity: 0, fillOpacity: 0 }
+                : excludedIds.has(Number(id)) ? { color: '#6b7280', opacity: 1, fillOpacity: 0, dashArray: '4 4' }
+                : { color: '#000', opacity: 1, fillOpacity: 0.3, dashArray: '' });
+        });
+    }, [replacementZones, locations, markerElements]);
+
+    const handleZoneChange = (zone: Zone) => {
+        setZones(prev => prev.map(existing => (existing.id === zone.id ? zone : existing)));
+    };
+
+    // Effect to persist saved scenarios
+    useEffect(() => {
+        saveScenarios(scenarios);
+    }, [scenarios]);
+
+    const handleSaveScenario = (name: string) => {
+        const scenario = createScenario(name, currentScenarioSettings);
+        setScenarios(prev => [...prev, scenario]);
+        setActiveScenarioId(scenario.id);
+    };
+
+    const handleUpdateScenario = (id: string) =>
+        setScenarios(prev => prev.map(scenario => (scenario.id === id ? { ...scenario, settings: { ...currentScenarioSettings, radii: { ...radii } } } : scenario)));
+
+    const handleApplyScenario = (scenario: Scenario) => {
+        const { settings } = scenario;
+        setRadii({ ...settings.radii });
+        setIsSynced(settings.isSynced);
+        setUniformRadius(settings.uniformRadius);
+        setShowLabels(settings.showLabels);
+        setShowHeatmap(settings.showHeatmap);
+        setIsClusteringEnabled(settings.isClusteringEnabled);
+        if (settings.zones) setZones(settings.zones);
+        setActiveScenarioId(scenario.id);
+    };
+
+    const handleDuplicateScenario = (scenario: Scenario) =>
+        setScenarios(prev => [...prev, createScenario(`Copy of ${scenario.name}`, scenario.settings)]);
+
+    const handleRenameScenario = (id: string, name: string) =>
+        setScenarios(prev => prev.map(scenario => (scenario.id === id ? { ...scenario, name } : scenario)));
+
+    const handleDeleteScenario = (id: string) => {
+        setScenarios(prev => prev.filter(scenario => scenario.id !== id));
+        if (activeScenarioId === id) setActiveScenarioId(null);
+    };
+
+    // Effect to apply a share link pasted into the address bar of an already open tab. Only the fields the link
+    // carries change, and edits and their undo history are kept.
+    useEffect(() => {
+        const handleHashChange = () => {
+            const state = decodeShareHash(window.location.hash, locationsRef.current.map(loc => loc.id));
+            if (state.radii) setRadii(prev => ({ ...prev, ...state.radii }));
+            if (state.isSynced !== undefined) setIsSynced(state.isSynced);
+            if (state.uniformRadius !== undefined) setUniformRadius(state.uniformRadius);
+            if (state.showLabels !== undefined) setShowLabels(state.showLabels);
+            if (state.showHeatmap !== undefined) setShowHeatmap(state.showHeatmap);
+            if (state.isClusteringEnabled !== undefined) setIsClusteringEnabled(state.isClusteringEnabled);
+            if (state.zones) setZones(state.zones);
+            if (state.searchTerm !== undefined) {
+                searchTouchedRef.current = false;
+                setSearchTerm(state.searchTerm);
+            }
+            if (state.view) mapRef.current?.setView([state.view.lat, state.view.lng], state.view.zoom);
+            if (state.selectedId === null) mapRef.current?.closePopup();
+            else if (state.selectedId !== undefined) layerRefs.current[state.selectedId]?.marker.openPopup();
+        };
+        window.addEventListener('hashchange', handleHashChange);
+        return () => window.removeEventListener('hashchange', handleHashChange);
+    }, []);
+
     // Effect to update circle radii when React state changes
     useEffect(() => {
         Object.entries(radii).forEach(([id, radius]) => {
@@ -215,19 +849,233 @@ const App: React.FC = () => {
             if (layerRefs.current[numericId]) {
                 const radiusInMeters = Number(radius) * 1000;
                 layerRefs.current[numericId].circle.setRadius(radiusInMeters);
-                
-                const popupSlider = document.getElementById(`radius-${numericId}`) as HTMLInputElement;
-                if (popupSlider) {
-                    popupSlider.value = String(radius);
-                    const radiusValueDisplay = document.getElementById(`radius-val-${numericId}`);
-                    if (radiusValueDisplay) {
-                        radiusValueDisplay.innerText = String(radius);
-                    }
-                }
             }
         });
     }, [radii]);
     
+    // Effect to draw circle intersections while overlap analysis is on
+    useEffect(() => {
+        if (!overlapLayerRef.current) return;
+        const overlapLayer = overlapLayerRef.current;
+        overlapLayer.clearLayers();
+        overlapPairs.forEach(pair => {
+            const polygon = intersectionPolygon(pair, radii);
+            if (polygon.length === 0) return;
+            L.polygon(polygon, { color: '#dc2626', weight: 1, fillColor: '#dc2626', fillOpacity: 0.5 })
+                .bindTooltip(`${escapeHtml(pair.a.city)} & ${escapeHtml(pair.b.city)}: ${formatArea(pair.sharedAreaKm2, unit)} shared`)
+                .addTo(overlapLayer);
+        });
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [overlapPairs, unit]);
+
+    // Effect to drop a proposal once the hotspots it was computed for change
+    useEffect(() => {
+        setOptimiseResult(null);
+    }, [planLocations]);
+
+    // Effect to draw the optimiser's proposal over the current circles
+    useEffect(() => {
+        if (!previewLayerRef.current) return;
+        const previewLayer = previewLayerRef.current;
+        previewLayer.clearLayers();
+        if (!optimiseResult) return;
+        optimiseResult.locationIds.forEach(id => {
+            const loc = planLocations.find(l => l.id === id);
+            if (!loc) return;
+            L.circle([loc.lat, loc.lng], {
+                radius: optimiseResult.radii[id] * 1000,
+                color: '#ea580c',
+                weight: 2,
+                dashArray: '6 4',
+                fill: false,
+                interactive: false,
+            }).addTo(previewLayer);
+        });
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [optimiseResult]);
+
+    const handleOptimiseSettingsChange = (settings: OptimiseSettings) => {
+        setOptimiseSettings(settings);
+        setOptimiseResult(null);
+    };
+
+    // Accepting applies the proposed radii; picked campaigns also narrow the list (and so exports) to themselves
+    const handleAcceptOptimise = () => {
+        if (!optimiseResult) return;
+        setIsSynced(false);
+        setRadii(prev => ({ ...prev, ...optimiseResult.radii }));
+        if (optimiseSettings.mode === 'top-k') {
+            setLocationFilter(prev => ({ ...prev, ids: optimiseResult.locationIds }));
+        }
+        setOptimiseResult(null);
+    };
+
+    // Effect to draw the catchment cells, the land outside every circle and the selected cell's farthest point
+    useEffect(() => {
+        if (!catchmentLayerRef.current) return;
+        const catchmentLayer = catchmentLayerRef.current;
+        catchmentLayer.clearLayers();
+        if (!gaps) return;
+
+        const renderer = L.canvas();
+        gaps.rectangles.forEach(bounds => {
+            L.rectangle(bounds, { renderer, stroke: false, fillColor: '#f59e0b', fillOpacity: 0.35, interactive: false }).addTo(catchmentLayer);
+        });
+        catchments.forEach(cell => {
+            const isSelected = cell.location.id === selectedCellId;
+            L.polygon(cell.rings, {
+                color: isSelected ? '#1d4ed8' : '#475569',
+                weight: isSelected ? 3 : 1,
+                fillColor: '#1d4ed8',
+                fillOpacity: isSelected ? 0.1 : 0,
+            })
+                .on('click', () => setSelectedCellId(cell.location.id))
+                .addTo(catchmentLayer);
+        });
+
+        const selected = catchments.find(cell => cell.location.id === selectedCellId);
+        if (!selected) return;
+        const { location, farthest, nearest } = selected;
+        const uncovered = gaps.byLocation[location.id] ?? 0;
+        L.circleMarker([farthest.lat, farthest.lng], { radius: 6, color: '#1d4ed8', weight: 2, fillColor: '#fff', fillOpacity: 1 })
+            .bindPopup(
+                `<strong>${escapeHtml(location.city)} catchment</strong><br>`
+                + `Area: ${formatArea(selected.areaKm2, unit)}<br>`
+                + `Outside every circle: ${formatArea(uncovered, unit)}<br>`
+                + (nearest ? `Nearest hotspot: ${escapeHtml(nearest.location.city)}, ${formatDistance(nearest.distanceKm, unit)}<br>` : '')
+                + `Farthest point (marked): ${formatDistance(farthest.distanceKm, unit)} from ${escapeHtml(location.city)}`
+            )
+            .addTo(catchmentLayer)
+            .openPopup();
+    }, [catchments, gaps, selectedCellId, unit]);
+
+    const handleSelectCell = (cell: CatchmentCell) => {
+        setSelectedCellId(cell.location.id);
+        mapRef.current?.fitBounds(L.latLngBounds(cell.rings.flat()));
+    };
+
+    // A preset can go on the selection, the open hotspot, everything listed, or a whole region
+    const presetTargets = useMemo((): PresetTarget[] => {
+        const selected = selectedId !== null ? locations.find(loc => loc.id === selectedId) : undefined;
+        return [
+            ...(selectedLocations.length > 0 ? [{ key: 'selection', label: 'Selection', ids: selectedLocations.map(loc => loc.id) }] : []),
+            ...(selected ? [{ key: 'selected', label: `Open hotspot: ${selected.city}`, ids: [selected.id] }] : []),
+            { key: 'listed', label: 'Listed hotspots', ids: filteredLocations.map(loc => loc.id) },
+            ...groupByRegion(locations, radii, DEFAULT_RADIUS_KM).map(group => ({
+                key: `region:${group.region}`,
+                label: `Region: ${group.region}`,
+                ids: group.locations.map(loc => loc.id),
+            })),
+        ];
+    }, [selectedId, selectedLocations, locations, filteredLocations, radii]);
+
+    // Applying a preset sets individual radii, so the uniform sync lets go as it does for the optimiser
+    const handleApplyPreset = (preset: RadiusPreset, ids: number[]) => {
+        setIsSynced(false);
+        setRadii(prev => ({ ...prev, ...Object.fromEntries(ids.map(id => [id, preset.radiusKm])) }));
+    };
+
+    // Ticking a hotspot or a whole region in the list, or shift-clicking markers, adds to or removes from the selection
+    const handleCheck = (ids: number[], checked: boolean) => setSelectionIds(prev => {
+        const next = new Set(prev);
+        ids.forEach(id => (checked ? next.add(id) : next.delete(id)));
+        return next;
+    });
+
+    // Bulk radii behave like a preset: individual radii, outside the edit history
+    const handleSelectionRadii = (updates: Radii) => {
+        setIsSynced(false);
+        setRadii(prev => ({ ...prev, ...updates }));
+    };
+
+    // Exclusion and tags are dataset edits, so one bulk change is one undo step
+    const editSelection = (edit: (loc: LocationData) => LocationData, label: string, ids: Set<number> = selectionIds) => {
+        const edited = locations.map(loc => (ids.has(loc.id) ? edit(loc) : loc));
+        if (edited.some((loc, i) => loc !== locations[i])) locationHistory.push(edited, label);
+    };
+
+    // Excludes the selection from the plan, or one hotspot when the budget planner's checkbox names it
+    const handleSetExcluded = (excluded: boolean, id?: number) => editSelection(
+        loc => (!!loc.excluded === excluded ? loc : { ...loc, excluded: excluded || undefined }),
+        `${excluded ? 'exclude' : 'include'} ${id === undefined ? `${selectedLocations.length} hotspots` : locations.find(loc => loc.id === id)?.city}`,
+        id === undefined ? selectionIds : new Set([id])
+    );
+
+    const handleZoomToSelection = () => {
+        const bounds = coverageBounds(selectedLocations, radii);
+        if (bounds) mapRef.current?.fitBounds(bounds, { padding: [20, 20] });
+    };
+
+    const handleShrinkOverlaps = () => {
+        setIsSynced(false);
+        setRadii(prev => shrinkToRemoveOverlaps(overlapPairs, prev));
+    };
+
+    // Effect to jump to a searched postcode district and its nearest hotspots
+    useEffect(() => {
+        if (!mapRef.current) return;
+        const map = mapRef.current;
+        if (searchMarkerRef.current) {
+            map.removeLayer(searchMarkerRef.current);
+            searchMarkerRef.current = null;
+        }
+        if (!searchOutcode) return;
+
+        searchMarkerRef.current = L.circleMarker([searchOutcode.lat, searchOutcode.lng], {
+            radius: 8,
+            color: '#7c3aed',
+            weight: 2,
+            fillColor: '#a78bfa',
+            fillOpacity: 0.8,
+        }).bindTooltip(searchOutcode.outcode, { permanent: true, direction: 'top' }).addTo(map);
+
+        if (!searchTouchedRef.current) return;
+        const bounds = L.latLngBounds([[searchOutcode.lat, searchOutcode.lng], ...nearestToOutcode.map(({ loc }) => [loc.lat, loc.lng])]);
+        map.fitBounds(bounds, { padding: [40, 40], maxZoom: 11 });
+    }, [searchOutcode, nearestToOutcode]);
+
+    // Effect to plot applicants outside every circle, showing where coverage misses real sign-ups
+    useEffect(() => {
+        if (!mapRef.current) return;
+        if (unmatchedLayerRef.current) {
+            mapRef.current.removeLayer(unmatchedLayerRef.current);
+            unmatchedLayerRef.current = null;
+        }
+        if (!showUnmatched || applicantMatching.unmatched.length === 0) return;
+
+        const renderer = L.canvas();
+        unmatchedLayerRef.current = L.layerGroup(applicantMatching.unmatched.map(({ applicant, location, distanceKm }) =>
+            L.circleMarker([applicant.lat, applicant.lng], { renderer, radius: 4, color: '#b45309', weight: 1, fillColor: '#f59e0b', fillOpacity: 0.8 })
+                .bindTooltip(`${escapeHtml(applicant.name)}${location && distanceKm !== null ? ` – ${formatDistance(distanceKm, unit)} from ${escapeHtml(location.city)}` : ''}`)
+        )).addTo(mapRef.current);
+    }, [applicantMatching.unmatched, showUnmatched, unit]);
+
+    const handleFocusApplicant = (applicant: Applicant) => {
+        setShowUnmatched(true);
+        mapRef.current?.setView([applicant.lat, applicant.lng], 11);
+    };
+
+    // Effect to rebuild the heat layer from the filtered hotspots and the heat settings
+    useEffect(() => {
+        if (!mapRef.current) return;
+        const map = mapRef.current;
+        if (heatmapLayerRef.current && map.hasLayer(heatmapLayerRef.current)) {
+            map.removeLayer(heatmapLayerRef.current);
+        }
+
+        // Intensities are normalised to 0..1 so max: 1 keeps the peak, and only the peak, saturated
+        const heatLayer = L.heatLayer(buildHeatPoints(filteredLocations, timelineLocations, heatmapSettings.normalisation), {
+            radius: heatmapSettings.radius,
+            blur: heatmapSettings.blur,
+            max: 1,
+            maxZoom: 12,
+            gradient: gradientStops(heatmapSettings.gradient),
+        });
+        heatmapLayerRef.current = heatLayer;
+        if (showHeatmap) map.addLayer(heatLayer);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [filteredLocations, timelineLocations, heatmapSettings]);
+
     // Effect to toggle the heatmap layer
     useEffect(() => {
         if (!mapRef.current || !heatmapLayerRef.current) return;
@@ -251,52 +1099,103 @@ const App: React.FC = () => {
             const newRadii = Object.keys(radii).reduce((acc, id) => {
                 acc[parseInt(id, 10)] = uniformRadius;
                 return acc;
-            }, {} as { [key: number]: number });
+            }, {} as Radii);
             setRadii(newRadii);
         }
     }, [isSynced, uniformRadius]);
     
-    // Effect to toggle marker labels
+    // Effect to resize marker icons when the symbology or budget allocation changes
     useEffect(() => {
-        LOCATIONS.forEach(loc => {
-            if (layerRefs.current[loc.id]) {
-                const marker = layerRefs.current[loc.id].marker;
-                const newIcon = createMarkerIcon(loc, showLabels);
-                marker.setIcon(newIcon);
+        locations.forEach(loc => {
+            if (layerRefs.current[loc.id] && markerElements[loc.id]) {
+                layerRefs.current[loc.id].marker.setIcon(createMarkerIcon(markerElements[loc.id].icon, markerStyles[loc.id]));
             }
         });
-    }, [showLabels]);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [markerStyles]);
+
+    // Effect to re-measure the open popup once React has rendered into it
+    useEffect(() => {
+        if (selectedId !== null) layerRefs.current[selectedId]?.marker.getPopup()?.update();
+    }, [selectedId, markerElements, isEditMode]);
 
-    // Effect to toggle clustering
+    // Effect to toggle clustering and to show only the markers (and so circles) of the listed hotspots
     useEffect(() => {
         if (!mapRef.current || !markerClusterGroupRef.current) return;
         const map = mapRef.current;
         const markerClusterGroup = markerClusterGroupRef.current;
+        const visibleIds = new Set(filteredLocations.map(loc => loc.id));
+        const markers = Object.entries(layerRefs.current).map(([id, { marker }]: [string, { marker: L.Marker }]) => ({ marker, visible: visibleIds.has(Number(id)) }));
 
         if (isClusteringEnabled) {
-            // Remove individual markers if they were added
-            Object.values(layerRefs.current).forEach(({ marker }) => {
-                if (map.hasLayer(marker)) {
-                    map.removeLayer(marker);
-                }
+            // Remove individual markers if they were added, then let the cluster group hold the visible ones
+            markers.forEach(({ marker }) => {
+                if (!markerClusterGroup.hasLayer(marker) && map.hasLayer(marker)) map.removeLayer(marker);
             });
-            // Add cluster group
+            markerClusterGroup.removeLayers(markers.filter(({ marker, visible }) => !visible && markerClusterGroup.hasLayer(marker)).map(({ marker }) => marker));
+            markerClusterGroup.addLayers(markers.filter(({ marker, visible }) => visible && !markerClusterGroup.hasLayer(marker)).map(({ marker }) => marker));
             if (!map.hasLayer(markerClusterGroup)) {
                 map.addLayer(markerClusterGroup);
             }
         } else {
-            // Remove cluster group
+            // Remove cluster group, then add the visible markers individually
             if (map.hasLayer(markerClusterGroup)) {
                 map.removeLayer(markerClusterGroup);
             }
-            // Add individual markers
-            Object.values(layerRefs.current).forEach(({ marker }) => {
-                if (!map.hasLayer(marker)) {
-                    map.addLayer(marker);
-                }
+            markerClusterGroup.clearLayers();
+            markers.forEach(({ marker, visible }) => {
+                if (visible && !map.hasLayer(marker)) map.addLayer(marker);
+                if (!visible && map.hasLayer(marker)) map.removeLayer(marker);
             });
         }
-    }, [isClusteringEnabled]);
+    }, [isClusteringEnabled, filteredLocations, markerElements]);
+
+    const handleNotesChange = (id: number, notes: string) => {
+        const loc = locations.find(l => l.id === id);
+        if (!loc) return;
+        locationHistory.push(
+            locations.map(l => (l.id === id ? { ...l, notes: notes || undefined } : l)),
+            `note ${loc.city}`
+        );
+    };
+
+    // The popup may show a timeline copy of the hotspot, so edits start from the stored one
+    const handlePopupEdit = (loc: LocationData) => {
+        const stored = locations.find(l => l.id === loc.id);
+        if (!stored) return;
+        mapRef.current?.closePopup();
+        setDraft({ ...stored });
+    };
+
+    const handlePopupDelete = (loc: LocationData) => {
+        mapRef.current?.closePopup();
+        locationHistory.push(locations.filter(l => l.id !== loc.id), `delete ${loc.city}`);
+    };
+
+    const uniformRange = radiusRange(unit);
+    const selectedLocation = selectedId !== null ? timelineLocations.find(loc => loc.id === selectedId) : undefined;
+
+    const handleTimelineToggle = (enabled: boolean) => {
+        setIsPlaying(false);
+        setTimelineIndex(enabled ? timelineDates.length - 1 : null);
+    };
+
+    const handlePlayToggle = () => {
+        // Playing from the last week starts over from the first
+        if (!isPlaying && timelineIndex !== null && timelineIndex >= timelineDates.length - 1) setTimelineIndex(0);
+        setIsPlaying(!isPlaying);
+    };
+
+    // Effect to step through the weeks while the timeline is playing, stopping at the last one
+    useEffect(() => {
+        if (!isPlaying) return;
+        if (timelineIndex === null || timelineIndex >= timelineDates.length - 1) {
+            setIsPlaying(false);
+            return;
+        }
+        const timer = setTimeout(() => setTimelineIndex(timelineIndex + 1), TIMELINE_STEP_MS);
+        return () => clearTimeout(timer);
+    }, [isPlaying, timelineIndex, timelineDates.length]);
 
     const handleLocationSelect = (loc: LocationData) => {
         if (mapRef.current && layerRefs.current[loc.id]) {
@@ -316,40 +1215,407 @@ const App: React.FC = () => {
         }
     };
 
+    // A dataset from the embedding page replaces the hotspots like an import; the page hears how it went
+    const applyEmbedDataset = (load: () => { locations: LocationData[]; issues: ImportIssue[] }, command?: string) => {
+        try {
+            const { locations: dataset, issues } = load();
+            handleDatasetReplace(dataset);
+            postToHost(embed, { type: 'datasetLoaded', count: dataset.length, issues });
+            return dataset;
+        } catch (err) {
+            postToHost(embed, { type: 'error', command, message: err instanceof Error ? err.message : String(err) });
+            return null;
+        }
+    };
+
+    // Commands from the embedding page, already checked by parseEmbedCommand
+    const handleEmbedCommand = (command: EmbedCommand) => {
+        switch (command.type) {
+            case 'focusLocation': {
+                const loc = locations.find(l => (command.id !== undefined ? l.id === command.id : l.city.toLowerCase() === command.city?.toLowerCase()));
+                if (loc) handleLocationSelect(loc);
+                else postToHost(embed, { type: 'error', command: command.type, message: 'No hotspot has that id or city.' });
+                break;
+            }
+            case 'setFilter':
+                setLocationFilter({ ...DEFAULT_LOCATION_FILTER, ...command.filter });
+                if (command.search !== undefined) setSearchTerm(command.search);
+                break;
+            case 'setHeatmap':
+                setShowHeatmap(command.visible);
+                break;
+            case 'setLabels':
+                setShowLabels(command.visible);
+                break;
+            case 'getRadii':
+                postToHost(embed, {
+                    type: 'radii',
+                    requestId: command.requestId,
+                    radii: Object.fromEntries(locations.map(loc => [loc.id, radii[loc.id] ?? DEFAULT_RADIUS_KM])),
+                });
+                break;
+            case 'setDataset':
+                applyEmbedDataset(() => datasetFromEmbed(command.data, command.format), command.type);
+                break;
+            case 'setPlan': {
+                // Radii are checked like a share link's; hotspots the plan leaves out keep their radius
+                const planRadii = sanitizeMapState({ radii: command.radii }).radii;
+                if (planRadii) {
+                    setIsSynced(false);
+                    setRadii(prev => ({ ...prev, ...planRadii }));
+                }
+                if (command.zones !== undefined) setZones(sanitizeZones(command.zones));
+                break;
+            }
+        }
+    };
+    const embedCommandRef = useRef(handleEmbedCommand);
+    embedCommandRef.current = handleEmbedCommand;
+
+    // Effect to listen to the embedding page and tell it the map is ready for commands
+    useEffect(() => {
+        if (!embed.enabled) return;
+        const handleMessage = (event: MessageEvent) => {
+            if (!isHostMessage(event, embed)) return;
+            const command = parseEmbedCommand(event.data);
+            if (command) embedCommandRef.current(command);
+        };
+        window.addEventListener('message', handleMessage);
+        postToHost(embed, { type: 'ready' });
+        return () => window.removeEventListener('message', handleMessage);
+    }, [embed]);
+
+    // Effect to load the dataset named in the embed URL. A share-link hash in the same URL was decoded against
+    // the built-in hotspots, so its radii are decoded again against the loaded ones.
+    useEffect(() => {
+        const { dataUrl } = embed;
+        if (!dataUrl) return;
+        fetch(dataUrl)
+            .then(response => {
+                if (!response.ok) throw new Error(`Loading ${dataUrl} failed (HTTP ${response.status}).`);
+                return response.text();
+            })
+            .then(text => {
+                const dataset = applyEmbedDataset(() => datasetFromEmbed(text));
+                const linkRadii = dataset && decodeShareHash(window.location.hash, dataset.map(loc => loc.id)).radii;
+                if (linkRadii) setRadii(prev => ({ ...prev, ...linkRadii }));
+            })
+            .catch(err => postToHost(embed, { type: 'error', message: err instanceof Error ? err.message : String(err) }));
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [embed]);
+
     return (
         <div className="h-full w-full flex flex-col md:flex-row bg-gray-100">
             {/* Control Panel */}
-            <div className="w-full md:w-80 lg:w-96 bg-white shadow-lg p-4 flex flex-col z-[1000] overflow-y-auto">
+            <div className={`w-full md:w-80 lg:w-96 bg-white shadow-lg p-4 flex flex-col z-[1000] overflow-y-auto ${embed.enabled ? 'hidden' : ''}`}>
                 <header className="mb-4">
                     <h1 className="text-2xl font-bold text-gray-800">Courier Hotspots</h1>
-                    <p className="text-sm text-gray-500">UK Campaign Planner</p>
+                    <div className="flex items-center justify-between">
+                        <p className="text-sm text-gray-500">UK Campaign Planner</p>
+                        <ShareLinkButton state={persistedState} />
+                    </div>
                 </header>
 
                 {/* Search Box */}
                 <div className="mb-4">
                     <input
                         type="text"
-                        placeholder="Search for a location..."
+                        placeholder="Search for a location or postcode..."
                         value={searchTerm}
-                        onChange={(e) => setSearchTerm(e.target.value)}
+                        onChange={(e) => {
+                            searchTouchedRef.current = true;
+                            setSearchTerm(e.target.value);
+                        }}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                     />
+                    {searchOutcode && (
+                        <p className="mt-1 text-xs text-purple-700">Nearest hotspots to {searchOutcode.outcode}</p>
+                    )}
+                    {!searchOutcode && parseOutcode(searchTerm) && filteredLocations.length === 0 && (
+                        <p className="mt-1 text-xs text-amber-600">Postcode district {parseOutcode(searchTerm)} is not in the offline lookup table.</p>
+                    )}
+                    <LocationFilters
+                        filter={locationFilter}
+                        regions={availableRegions}
+                        tags={availableTags}
+                        sortKey={sortKey}
+                        onChange={setLocationFilter}
+                        onSortChange={setSortKey}
+                    />
                 </div>
                 <div className="flex-grow overflow-y-auto border-t border-gray-200">
-                    <ul className="divide-y divide-gray-200">
-                        {filteredLocations.map(loc => (
-                            <li key={loc.id} onClick={() => handleLocationSelect(loc)}
-                                className="p-3 hover:bg-blue-50 cursor-pointer transition-colors duration-150">
-                                <p className="font-semibold text-gray-700">{loc.city}</p>
-                                <p className="text-xs text-gray-500">{loc.region}</p>
-                            </li>
-                        ))}
-                    </ul>
+                    <LocationList
+                        groups={locationGroups}
+                        unit={unit}
+                        trends={trends}
+                        risingIds={risingIds}
+                        timelineDate={timelineDate}
+                        filled={applicants.length > 0 ? applicantMatching.filled : undefined}
+                        checkedIds={selectionIds}
+                        onCheck={handleCheck}
+                        onSelect={handleLocationSelect}
+                        detail={searchOutcode
+                            ? loc => `${formatDistance(nearestToOutcode.find(n => n.loc.id === loc.id)?.distanceKm ?? 0, unit)} from ${searchOutcode.outcode}`
+                            : undefined}
+                    />
+                </div>
+
+                {/* Demand Timeline */}
+                <div className="mt-4 pt-4 border-t border-gray-200">
+                    <div className="flex items-center justify-between mb-2">
+                        <label htmlFor="show-timeline" className="font-bold text-lg">Demand Timeline</label>
+                        <input
+                            type="checkbox"
+                            id="show-timeline"
+                            checked={timelineDate !== null}
+                            disabled={timelineDates.length === 0}
+                            onChange={(e) => handleTimelineToggle(e.target.checked)}
+                            className="h-5 w-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                    </div>
+                    {timelineDates.length === 0 && (
+                        <p className="text-xs text-gray-500">Import weekly need to see trends and play back demand over time.</p>
+                    )}
+                    <TimelinePanel
+                        locations={locations}
+                        dates={timelineDates}
+                        date={timelineDate}
+                        isPlaying={isPlaying}
+                        totalNeed={timelineTotals.total}
+                        previousTotalNeed={timelineTotals.previous}
+                        rising={rising}
+                        onDateChange={(index) => {
+                            setIsPlaying(false);
+                            setTimelineIndex(index);
+                        }}
+                        onPlayToggle={handlePlayToggle}
+                        onApplyHistory={handleApplyHistory}
+                        onSelectLocation={handleLocationSelect}
+                    />
+                </div>
+
+                {/* Edit Mode */}
+                <div className="mt-4 pt-4 border-t border-gray-200">
+                    <div className="flex items-center justify-between mb-2">
+                        <label htmlFor="edit-mode" className="font-bold text-lg">Edit Hotspots</label>
+                        <input
+                            type="checkbox"
+                            id="edit-mode"
+                            checked={isEditMode}
+                            onChange={(e) => setIsEditMode(e.target.checked)}
+                            className="h-5 w-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                    </div>
+                    {isEditMode && (
+                        <EditPanel
+                            draft={draft}
+                            changes={locationChanges}
+                            undoLabel={locationHistory.undoLabel}
+                            redoLabel={locationHistory.redoLabel}
+                            onDraftChange={setDraft}
+                            onSaveDraft={handleSaveDraft}
+                            onCancelDraft={() => setDraft(null)}
+                            onUndo={locationHistory.undo}
+                            onRedo={locationHistory.redo}
+                            onRevertChange={handleRevertChange}
+                            onRevertAll={() => locationHistory.push(originalLocations, 'revert all')}
+                        />
+                    )}
+                </div>
+
+                {/* Symbology */}
+                <div className="mt-4 pt-4 border-t border-gray-200">
+                    <h3 className="font-bold text-lg mb-2">Symbology</h3>
+                    <SymbologyControls settings={symbology} onChange={setSymbology} />
+                </div>
+
+                {/* Radius Presets */}
+                <div className="mt-4 pt-4 border-t border-gray-200">
+                    <h3 className="font-bold text-lg mb-2">Radius Presets</h3>
+                    <RadiusPresetPanel
+                        presets={radiusPresets}
+                        targets={presetTargets}
+                        unit={unit}
+                        onApply={handleApplyPreset}
+                        onAdd={(name, radiusKm) => setRadiusPresets(prev => [...prev, createRadiusPreset(name, radiusKm)])}
+                        onDelete={(id) => setRadiusPresets(prev => prev.filter(preset => preset.id !== id))}
+                    />
+                </div>
+
+                {/* Measure */}
+                <div className="mt-4 pt-4 border-t border-gray-200">
+                    <h3 className="font-bold text-lg mb-2">Measure</h3>
+                    <MeasurePanel
+                        mode={measureMode}
+                        points={measurePoints}
+                        unit={unit}
+                        onModeChange={setMeasureMode}
+                        onUndo={() => setMeasurePoints(prev => prev.slice(0, -1))}
+                        onClear={() => setMeasurePoints([])}
+                    />
+                </div>
+
+                {/* Overlap Analysis */}
+                <div className="mt-4 pt-4 border-t border-gray-200">
+                    <div className="flex items-center justify-between mb-2">
+                        <label htmlFor="show-overlaps" className="font-bold text-lg">Overlap Analysis</label>
+                        <input
+                            type="checkbox"
+                            id="show-overlaps"
+                            checked={showOverlaps}
+                            onChange={(e) => setShowOverlaps(e.target.checked)}
+                            className="h-5 w-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                    </div>
+                    {overlapStats && (
+                        <OverlapPanel
+                            pairs={overlapPairs}
+                            stats={overlapStats}
+                            unit={unit}
+                            onSelectLocation={handleLocationSelect}
+                            onShrink={handleShrinkOverlaps}
+                        />
+                    )}
+                </div>
+
+                {/* Optimise */}
+                <div className="mt-4 pt-4 border-t border-gray-200">
+                    <h3 className="font-bold text-lg mb-2">Optimise</h3>
+                    <OptimisePanel
+                        settings={optimiseSettings}
+                        result={optimiseResult}
+                        locations={planLocations}
+                        radii={radii}
+                        unit={unit}
+                        onChange={handleOptimiseSettingsChange}
+                        onPreview={() => setOptimiseResult(optimise(planLocations, radii, optimiseSettings))}
+                        onAccept={handleAcceptOptimise}
+                        onReject={() => setOptimiseResult(null)}
+                    />
+                </div>
+
+                {/* Catchments & Gaps */}
+                <div className="mt-4 pt-4 border-t border-gray-200">
+                    <div className="flex items-center justify-between mb-2">
+                        <label htmlFor="show-catchments" className="font-bold text-lg">Catchments &amp; Gaps</label>
+                        <input
+                            type="checkbox"
+                            id="show-catchments"
+                            checked={showCatchments}
+                            onChange={(e) => setShowCatchments(e.target.checked)}
+                            className="h-5 w-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                    </div>
+                    {gaps && (
+                        <CatchmentPanel cells={catchments} gaps={gaps} selectedId={selectedCellId} unit={unit} onSelectCell={handleSelectCell} />
+                    )}
+                </div>
+
+                {/* Budget Planner */}
+                <div className="mt-4 pt-4 border-t border-gray-200">
+                    <div className="flex items-center justify-between mb-2">
+                        <label htmlFor="show-budget" className="font-bold text-lg">Budget Planner</label>
+                        <input
+                            type="checkbox"
+                            id="show-budget"
+                            checked={showBudget}
+                            onChange={(e) => setShowBudget(e.target.checked)}
+                            className="h-5 w-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                    </div>
+                    {budgetPlan && (
+                        <BudgetPlanner settings={budgetSettings} plan={budgetPlan} onChange={setBudgetSettings} onSetExcluded={(id, excluded) => handleSetExcluded(excluded, id)} />
+                    )}
+                </div>
+
+                {/* Applicants */}
+                <div className="mt-4 pt-4 border-t border-gray-200">
+                    <h3 className="font-bold text-lg mb-2">Applicants</h3>
+                    <ApplicantPanel
+                        applicants={applicants}
+                        matching={applicantMatching}
+                        showUnmatched={showUnmatched}
+                        unit={unit}
+                        onImport={setApplicants}
+                        onClear={() => setApplicants([])}
+                        onShowUnmatchedChange={setShowUnmatched}
+                        onFocusApplicant={handleFocusApplicant}
+                    />
+                </div>
+
+                {/* Target Zones */}
+                <div className="mt-4 pt-4 border-t border-gray-200">
+                    <h3 className="font-bold text-lg mb-2">Target Zones</h3>
+                    <ZonePanel
+                        zones={zones}
+                        locations={timelineLocations}
+                        unit={unit}
+                        onChange={handleZoneChange}
+                        onDelete={(id) => setZones(prev => prev.filter(zone => zone.id !== id))}
+                        onZoom={(zone) => mapRef.current?.fitBounds(L.latLngBounds(zone.points))}
+                    />
+                </div>
+
+                {/* Scenarios */}
+                <div className="mt-4 pt-4 border-t border-gray-200">
+                    <h3 className="font-bold text-lg mb-2">Scenarios</h3>
+                    <ScenarioPanel
+                        scenarios={scenarios}
+                        activeScenarioId={activeScenarioId}
+                        isModified={isScenarioModified}
+                        onSaveNew={handleSaveScenario}
+                        onUpdate={handleUpdateScenario}
+                        onApply={handleApplyScenario}
+                        onDuplicate={handleDuplicateScenario}
+                        onRename={handleRenameScenario}
+                        onDelete={handleDeleteScenario}
+                        onCompare={(a, b) => setComparePair([a, b])}
+                    />
+                </div>
+
+                {/* Export */}
+                <div className="mt-4">
+                    <ExportMenu
+                        locations={planLocations}
+                        radii={radii}
+                        zones={zones}
+                        unit={unit}
+                        isFiltered={planLocations.length !== locations.length}
+                    />
+                    <button
+                        onClick={() => setShowReport(true)}
+                        disabled={planLocations.length === 0}
+                        className="mt-2 w-full px-3 py-2 text-sm font-semibold rounded-md border border-blue-600 text-blue-700 hover:bg-blue-50 disabled:border-gray-300 disabled:text-gray-400"
+                    >
+                        Campaign report
+                    </button>
+                </div>
+
+                {/* Data Import */}
+                <div className="mt-4 pt-4 border-t border-gray-200">
+                    <h3 className="font-bold text-lg mb-2">Hotspot Data</h3>
+                    <DataImporter
+                        locations={locations}
+                        onApply={handleDatasetReplace}
+                        onReset={() => handleDatasetReplace(LOCATIONS)}
+                    />
                 </div>
 
                 {/* Global Controls */}
                 <div className="mt-4 pt-4 border-t border-gray-200">
                     <h3 className="font-bold text-lg mb-2">Global Controls</h3>
+                    <BasemapControls settings={basemap} onChange={setBasemap} />
+                    <div className="flex items-center justify-between mb-3">
+                        <label htmlFor="distance-unit" className="font-semibold text-gray-700">Distance Units</label>
+                        <select
+                            id="distance-unit"
+                            value={unit}
+                            onChange={(e) => setUnit(e.target.value as DistanceUnit)}
+                            className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                        >
+                            {UNIT_OPTIONS.map(option => <option key={option.unit} value={option.unit}>{option.label}</option>)}
+                        </select>
+                    </div>
                     <div className="flex items-center justify-between mb-3">
                         <label htmlFor="enable-clustering" className="font-semibold text-gray-700">Enable Clustering</label>
                         <input
@@ -370,6 +1636,7 @@ const App: React.FC = () => {
                             className="h-5 w-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                         />
                     </div>
+                    {showHeatmap && <HeatmapControls settings={heatmapSettings} onChange={setHeatmapSettings} />}
                     <div className="flex items-center justify-between mb-3">
                         <label htmlFor="show-labels" className="font-semibold text-gray-700">Show Labels</label>
                         <input
@@ -391,13 +1658,13 @@ const App: React.FC = () => {
                         />
                     </div>
                     <div>
-                        <label htmlFor="uniform-radius" className="text-sm">Uniform Radius: <span className="font-bold">{uniformRadius} km</span></label>
+                        <label htmlFor="uniform-radius" className="text-sm">Uniform Radius: <span className="font-bold">{formatDistance(uniformRadius, unit)}</span></label>
                         <input
                             type="range"
                             id="uniform-radius"
-                            min="1" max="50"
-                            value={uniformRadius}
-                            onChange={(e) => setUniformRadius(Number(e.target.value))}
+                            min={uniformRange.min} max={uniformRange.max} step={uniformRange.step}
+                            value={roundTo(toUnit(uniformRadius, unit))}
+                            onChange={(e) => setUniformRadius(clampRadiusKm(fromUnit(Number(e.target.value), unit)))}
                             disabled={!isSynced}
                             className={`w-full h-2 rounded-lg appearance-none cursor-pointer ${isSynced ? 'bg-blue-200' : 'bg-gray-200'}`}
                         />
@@ -407,6 +1674,96 @@ const App: React.FC = () => {
 
             {/* Map Container */}
             <div ref={mapContainerRef} className="flex-grow h-full w-full" />
+
+            {/* Marker icons, the open popup and the legend are rendered by React into Leaflet's elements */}
+            {locations.map(loc => markerElements[loc.id] && createPortal(
+                <MarkerIcon
+                    city={loc.city}
+                    style={markerStyles[loc.id] ?? DEFAULT_MARKER_STYLE}
+                    showLabel={showLabels}
+                    isSelected={selectionIds.has(loc.id)}
+                    isExcluded={loc.excluded}
+                />,
+                markerElements[loc.id].icon,
+                `icon-${loc.id}`
+            ))}
+            {selectedLocation && markerElements[selectedLocation.id] && createPortal(
+                <LocationPopup
+                    location={selectedLocation}
+                    radius={radii[selectedLocation.id] ?? DEFAULT_RADIUS_KM}
+                    unit={unit}
+                    isEditMode={isEditMode}
+                    readOnly={embed.enabled}
+                    trend={trends.get(selectedLocation.id)}
+                    filled={applicants.length > 0 ? applicantMatching.filled[selectedLocation.id] ?? 0 : undefined}
+                    timelineDate={timelineDate}
+                    onRadiusChange={(id, radius) => setRadii(prev => ({ ...prev, [id]: radius }))}
+                    onNotesChange={handleNotesChange}
+                    onEdit={handlePopupEdit}
+                    onDelete={handlePopupDelete}
+                />,
+                markerElements[selectedLocation.id].popup
+            )}
+            {legendElement && createPortal(
+                <MapLegend
+                    classes={needClasses}
+                    encoding={symbology.encoding}
+                    sizedByBudget={budgetPlan !== null}
+                    heatGradient={heatmapSettings.gradient}
+                />,
+                legendElement
+            )}
+            {selectionElement && createPortal(
+                <SelectionToolbar
+                    selection={selectedLocations}
+                    knownTags={availableTags.map(({ tag }) => tag)}
+                    mode={selectMode}
+                    unit={unit}
+                    onModeChange={setSelectMode}
+                    onSetRadius={(radiusKm) => handleSelectionRadii(Object.fromEntries(selectedLocations.map(loc => [loc.id, radiusKm])))}
+                    onScaleRadii={(percent) => handleSelectionRadii(scaleRadii(radii, selectedLocations.map(loc => loc.id), percent))}
+                    onSetExcluded={(excluded) => handleSetExcluded(excluded)}
+                    onAddTag={(tag) => editSelection(loc => withTag(loc, tag), `tag ${selectedLocations.length} hotspots "${tag}"`)}
+                    onRemoveTag={(tag) => editSelection(loc => withoutTag(loc, tag), `untag ${selectedLocations.length} hotspots "${tag}"`)}
+                    onZoom={handleZoomToSelection}
+                    onClear={() => setSelectionIds(new Set())}
+                />,
+                selectionElement
+            )}
+
+            {showReport && (
+                <CampaignReport
+                    locations={planLocations}
+                    radii={radii}
+                    replacements={replacementZones}
+                    unit={unit}
+                    scenarioLabel={activeScenario ? `Scenario "${activeScenario.name}"${isScenarioModified ? ' (modified)' : ''}` : 'Unsaved settings'}
+                    filterSummary={filterSummary}
+                    timelineDate={timelineDate}
+                    captureMap={() => renderMapSnapshot(mapRef.current, tileLayerRef.current, {
+                        locations: planLocations,
+                        radii,
+                        zones,
+                        replacements: replacementZones,
+                        markerStyles,
+                        showLabels,
+                        needClasses,
+                        encoding: symbology.encoding,
+                    })}
+                    onClose={() => setShowReport(false)}
+                />
+            )}
+            {comparePair && (
+                <ScenarioCompare
+                    locations={locations}
+                    scenarioA={comparePair[0]}
+                    scenarioB={comparePair[1]}
+                    initialView={mapView}
+                    basemap={basemap}
+                    unit={unit}
+                    onClose={() => setComparePair(null)}
+                />
+            )}
         </div>
     );
 };
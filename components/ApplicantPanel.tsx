@@ -0,0 +1,111 @@
+import React, { useRef, useState } from 'react';
+import type { Applicant, ApplicantMatching, DistanceUnit, ImportIssue } from '../types';
+import { parseApplicantCsv } from '../utils/applicants';
+import { formatDistance } from '../utils/units';
+import { IssueList } from './DataImporter';
+
+interface ApplicantPanelProps {
+    applicants: Applicant[];
+    matching: ApplicantMatching;
+    showUnmatched: boolean;
+    unit: DistanceUnit;
+    onImport: (applicants: Applicant[]) => void;
+    onClear: () => void;
+    onShowUnmatchedChange: (show: boolean) => void;
+    onFocusApplicant: (applicant: Applicant) => void;
+}
+
+const ApplicantPanel: React.FC<ApplicantPanelProps> = ({
+    applicants, matching, showUnmatched, unit, onImport, onClear, onShowUnmatchedChange, onFocusApplicant,
+}) => {
+    const [issues, setIssues] = useState<ImportIssue[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const readFile = async (file: File) => {
+        setError(null);
+        setIssues([]);
+        try {
+            const parsed = parseApplicantCsv(await file.text());
+            setIssues(parsed.issues);
+            onImport(parsed.applicants);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const matchedCount = applicants.length - matching.unmatched.length;
+
+    return (
+        <div className="text-sm">
+            <div className="flex items-center gap-3">
+                <button onClick={() => fileInputRef.current?.click()} className="px-3 py-1 rounded-md border border-gray-300 text-gray-700">
+                    Import applicants (CSV)…
+                </button>
+                {applicants.length > 0 && (
+                    <button onClick={onClear} className="text-xs text-red-600 hover:underline">Clear</button>
+                )}
+            </div>
+            <p className="mt-1 text-xs text-gray-500">Columns: name, and lat/lng or postcode</p>
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv"
+                className="hidden"
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) readFile(file);
+                    e.target.value = '';
+                }}
+            />
+            {error && <p className="mt-2 text-red-600">{error}</p>}
+            {issues.length > 0 && (
+                <div className="mt-2">
+                    <p className="text-xs text-red-600">{issues.length} row(s) could not be placed</p>
+                    <IssueList issues={issues} />
+                </div>
+            )}
+
+            {applicants.length > 0 && (
+                <>
+                    <p className="mt-2 text-gray-700">
+                        <span className="font-semibold">{applicants.length}</span> applicants:{' '}
+                        <span className="text-green-700 font-semibold">{matchedCount} inside a circle</span>,{' '}
+                        <span className={matching.unmatched.length > 0 ? 'text-amber-600 font-semibold' : ''}>{matching.unmatched.length} outside every circle</span>
+                    </p>
+                    <div className="flex items-center justify-between mt-2">
+                        <label htmlFor="show-unmatched" className="text-gray-700">Show unmatched on map</label>
+                        <input
+                            type="checkbox"
+                            id="show-unmatched"
+                            checked={showUnmatched}
+                            onChange={(e) => onShowUnmatchedChange(e.target.checked)}
+                            className="h-5 w-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                    </div>
+                    {matching.unmatched.length > 0 && (
+                        <ul className="mt-2 max-h-48 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md text-xs">
+                            {matching.unmatched.map(({ applicant, location, distanceKm }) => (
+                                <li
+                                    key={`${applicant.id}-${applicant.sourceRow}`}
+                                    onClick={() => onFocusApplicant(applicant)}
+                                    className="px-2 py-1 flex justify-between gap-2 cursor-pointer hover:bg-blue-50"
+                                >
+                                    <span className="font-semibold text-gray-700">
+                                        {applicant.name}
+                                        {applicant.postcode && <span className="font-normal text-gray-500"> {applicant.postcode}</span>}
+                                    </span>
+                                    {location && distanceKm !== null && (
+                                        <span className="text-gray-500 whitespace-nowrap">{formatDistance(distanceKm, unit)} from {location.city}</span>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ApplicantPanel;
@@ -0,0 +1,44 @@
+import React from 'react';
+import type { BasemapId, BasemapSettings } from '../types';
+import { BASEMAP_OPTIONS, isValidTileUrl } from '../utils/basemaps';
+
+interface BasemapControlsProps {
+    settings: BasemapSettings;
+    onChange: (settings: BasemapSettings) => void;
+}
+
+const BasemapControls: React.FC<BasemapControlsProps> = ({ settings, onChange }) => {
+    const isCustomValid = isValidTileUrl(settings.customUrl);
+
+    return (
+        <div className="mb-3 text-sm">
+            <label htmlFor="basemap" className="block font-semibold text-gray-700 mb-1">Basemap</label>
+            <select
+                id="basemap"
+                value={settings.id}
+                onChange={(e) => onChange({ ...settings, id: e.target.value as BasemapId })}
+                className="w-full px-2 py-1 border border-gray-300 rounded-md"
+            >
+                {BASEMAP_OPTIONS.map(({ id, label }) => <option key={id} value={id}>{label}</option>)}
+            </select>
+            {settings.id === 'custom' && (
+                <div className="mt-2">
+                    <input
+                        type="text"
+                        value={settings.customUrl}
+                        onChange={(e) => onChange({ ...settings, customUrl: e.target.value })}
+                        placeholder="http://localhost:8080/tiles/{z}/{x}/{y}.png"
+                        className={`w-full px-2 py-1 border rounded-md font-mono text-xs ${settings.customUrl && !isCustomValid ? 'border-red-400' : 'border-gray-300'}`}
+                    />
+                    <p className={`mt-1 text-xs ${settings.customUrl && !isCustomValid ? 'text-red-600' : 'text-gray-500'}`}>
+                        {isCustomValid
+                            ? 'Tiles from servers without CORS headers are left out of report snapshots and the offline cache.'
+                            : 'Enter a tile URL with {z}, {x} and {y}. Streets is shown until then.'}
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BasemapControls;
@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import type { BudgetPlan, BudgetSettings, LocationAllocation, RegionAllocation } from '../types';
+import { regionLabel } from '../utils/budget';
+
+interface BudgetPlannerProps {
+    settings: BudgetSettings;
+    plan: BudgetPlan;
+    onChange: (settings: BudgetSettings) => void;
+    // The include checkboxes exclude hotspots from the whole plan, not just the budget
+    onSetExcluded: (id: number, excluded: boolean) => void;
+}
+
+type LocationSortKey = 'city' | 'region' | 'need' | 'spend' | 'signups';
+type RegionSortKey = 'region' | 'hotspots' | 'need' | 'spend' | 'signups';
+
+const formatMoney = (amount: number) => `£${Math.round(amount).toLocaleString()}`;
+
+const LOCATION_SORT_VALUES: { [key in LocationSortKey]: (row: LocationAllocation) => string | number } = {
+    city: row => row.location.city,
+    region: row => regionLabel(row.location.region),
+    need: row => row.location.courierNeed,
+    spend: row => row.spend,
+    signups: row => row.expectedSignups,
+};
+
+const REGION_SORT_VALUES: { [key in RegionSortKey]: (row: RegionAllocation) => string | number } = {
+    region: row => row.region,
+    hotspots: row => row.hotspots,
+    need: row => row.courierNeed,
+    spend: row => row.spend,
+    signups: row => row.expectedSignups,
+};
+
+const sortRows = <T, K extends string>(rows: T[], values: { [key in K]: (row: T) => string | number }, key: K, descending: boolean) =>
+    [...rows].sort((a, b) => {
+        const x = values[key](a);
+        const y = values[key](b);
+        const order = typeof x === 'string' ? x.localeCompare(y as string) : x - (y as number);
+        return descending ? -order : order;
+    });
+
+const SortHeader = <K extends string>({ label, sortKey, active, descending, onSort, align = 'left' }: {
+    label: string;
+    sortKey: K;
+    active: K;
+    descending: boolean;
+    onSort: (key: K) => void;
+    align?: 'left' | 'right';
+}) => (
+    <th className={`px-1 py-1 font-semibold cursor-pointer select-none ${align === 'right' ? 'text-right' : 'text-left'}`} onClick={() => onSort(sortKey)}>
+        {label}{active === sortKey ? (descending ? ' ▼' : ' ▲') : ''}
+    </th>
+);
+
+const NumberField: React.FC<{ id: string; label: string; value: number; onChange: (value: number) => void }> = ({ id, label, value, onChange }) => (
+    <div>
+        <label htmlFor={id} className="block text-xs text-gray-600">{label}</label>
+        <input
+            id={id}
+            type="number"
+            min="0"
+            value={value}
+            onChange={(e) => onChange(Math.max(0, Number(e.target.value)))}
+            className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+        />
+    </div>
+);
+
+const BudgetPlanner: React.FC<BudgetPlannerProps> = ({ settings, plan, onChange, onSetExcluded }) => {
+    const [view, setView] = useState<'locations' | 'regions'>('locations');
+    const [locationSort, setLocationSort] = useState<{ key: LocationSortKey; descending: boolean }>({ key: 'spend', descending: true });
+    const [regionSort, setRegionSort] = useState<{ key: RegionSortKey; descending: boolean }>({ key: 'spend', descending: true });
+    const [showRegionCaps, setShowRegionCaps] = useState(false);
+
+    const update = (changes: Partial<BudgetSettings>) => onChange({ ...settings, ...changes });
+
+    const setRegionCap = (region: string, text: string) => {
+        const regionCaps = { ...settings.regionCaps };
+        if (text === '') {
+            delete regionCaps[region];
+        } else {
+            regionCaps[region] = Math.max(0, Number(text));
+        }
+        update({ regionCaps });
+    };
+
+    const toggleSort = <K extends string>(sort: { key: K; descending: boolean }, setSort: (sort: { key: K; descending: boolean }) => void) =>
+        (key: K) => setSort({ key, descending: sort.key === key ? !sort.descending : key !== 'city' && key !== 'region' });
+
+    return (
+        <div className="text-sm">
+            <div className="grid grid-cols-3 gap-2">
+                <NumberField id="budget-total" label="Monthly budget (£)" value={settings.totalBudget} onChange={totalBudget => update({ totalBudget })} />
+                <NumberField id="budget-cpa" label="Cost / sign-up (£)" value={settings.costPerSignup} onChange={costPerSignup => update({ costPerSignup })} />
+                <NumberField id="budget-floor" label="Min spend (£)" value={settings.minSpend} onChange={minSpend => update({ minSpend })} />
+            </div>
+
+            <button onClick={() => setShowRegionCaps(!showRegionCaps)} className="mt-2 text-xs text-blue-600 hover:underline">
+                {showRegionCaps ? 'Hide' : 'Set'} region caps ({Object.keys(settings.regionCaps).length} set)
+            </button>
+            {showRegionCaps && (
+                <ul className="mt-1 space-y-1">
+                    {plan.regions.map(({ region }) => (
+                        <li key={region} className="flex items-center justify-between gap-2">
+                            <span className="text-xs text-gray-700">{region}</span>
+                            <input
+                                type="number"
+                                min="0"
+                                placeholder="No cap"
+                                value={settings.regionCaps[region] ?? ''}
+                                onChange={(e) => setRegionCap(region, e.target.value)}
+                                className="w-24 px-2 py-0.5 border border-gray-300 rounded-md text-xs"
+                            />
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <dl className="mt-2 grid grid-cols-2 gap-x-2 text-gray-700">
+                <dt>Allocated</dt>
+                <dd className="text-right font-semibold">{formatMoney(plan.allocated)}</dd>
+                <dt>Expected sign-ups</dt>
+                <dd className="text-right font-semibold">{Math.round(plan.allocated / (settings.costPerSignup || 1)).toLocaleString()}</dd>
+                {plan.unallocated >= 1 && (
+                    <>
+                        <dt>Unallocated</dt>
+                        <dd className="text-right font-semibold text-amber-600">{formatMoney(plan.unallocated)}</dd>
+                    </>
+                )}
+            </dl>
+            {plan.floorsScaled && <p className="text-xs text-amber-600">Minimum spends didn't fit the budget or a region cap and were scaled down.</p>}
+
+            <div className="flex gap-1 mt-2">
+                {(['locations', 'regions'] as const).map(option => (
+                    <button
+                        key={option}
+                        onClick={() => setView(option)}
+                        className={`px-2 py-0.5 rounded-md text-xs ${view === option ? 'bg-blue-600 text-white' : 'border border-gray-300 text-gray-700'}`}
+                    >
+                        By {option === 'locations' ? 'location' : 'region'}
+                    </button>
+                ))}
+            </div>
+
+            <div className="mt-1 max-h-64 overflow-y-auto border border-gray-200 rounded-md">
+                <table className="w-full text-xs">
+                    {view === 'locations' ? (
+                        <>
+                            <thead className="bg-gray-50 sticky top-0">
+                                <tr>
+                                    <th className="px-1 py-1" title="Include in plan">✓</th>
+                                    <SortHeader label="City" sortKey="city" active={locationSort.key} descending={locationSort.descending} onSort={toggleSort(locationSort, setLocationSort)} />
+                                    <SortHeader label="Need" sortKey="need" align="right" active={locationSort.key} descending={locationSort.descending} onSort={toggleSort(locationSort, setLocationSort)} />
+                                    <SortHeader label="Spend" sortKey="spend" align="right" active={locationSort.key} descending={locationSort.descending} onSort={toggleSort(locationSort, setLocationSort)} />
+                                    <SortHeader label="Sign-ups" sortKey="signups" align="right" active={locationSort.key} descending={locationSort.descending} onSort={toggleSort(locationSort, setLocationSort)} />
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                                {sortRows(plan.locations, LOCATION_SORT_VALUES, locationSort.key, locationSort.descending).map(row => (
+                                    <tr key={row.location.id} className={row.excluded ? 'text-gray-400' : 'text-gray-700'}>
+                                        <td className="px-1 py-0.5 text-center">
+                                            <input type="checkbox" checked={!row.excluded} onChange={() => onSetExcluded(row.location.id, !row.excluded)} />
+                                        </td>
+                                        <td className="px-1 py-0.5">{row.location.city}</td>
+                                        <td className="px-1 py-0.5 text-right">{row.location.courierNeed}</td>
+                                        <td className="px-1 py-0.5 text-right">{formatMoney(row.spend)}</td>
+                                        <td className="px-1 py-0.5 text-right">{row.expectedSignups.toFixed(1)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </>
+                    ) : (
+                        <>
+                            <thead className="bg-gray-50 sticky top-0">
+                                <tr>
+                                    <SortHeader label="Region" sortKey="region" active={regionSort.key} descending={regionSort.descending} onSort={toggleSort(regionSort, setRegionSort)} />
+                                    <SortHeader label="Hotspots" sortKey="hotspots" align="right" active={regionSort.key} descending={regionSort.descending} onSort={toggleSort(regionSort, setRegionSort)} />
+                                    <SortHeader label="Need" sortKey="need" align="right" active={regionSort.key} descending={regionSort.descending} onSort={toggleSort(regionSort, setRegionSort)} />
+                                    <SortHeader label="Spend" sortKey="spend" align="right" active={regionSort.key} descending={regionSort.descending} onSort={toggleSort(regionSort, setRegionSort)} />
+                                    <SortHeader label="Sign-ups" sortKey="signups" align="right" active={regionSort.key} descending={regionSort.descending} onSort={toggleSort(regionSort, setRegionSort)} />
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100 text-gray-700">
+                                {sortRows(plan.regions, REGION_SORT_VALUES, regionSort.key, regionSort.descending).map(row => (
+                                    <tr key={row.region}>
+                                        <td className="px-1 py-0.5">
+                                            {row.region}
+                                            {row.cap !== undefined && <span className="block text-gray-500">cap {formatMoney(row.cap)}</span>}
+                                        </td>
+                                        <td className="px-1 py-0.5 text-right">{row.hotspots}</td>
+                                        <td className="px-1 py-0.5 text-right">{row.courierNeed}</td>
+                                        <td className="px-1 py-0.5 text-right">{formatMoney(row.spend)}</td>
+                                        <td className="px-1 py-0.5 text-right">{row.expectedSignups.toFixed(1)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </>
+                    )}
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default BudgetPlanner;
@@ -0,0 +1,164 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import type { DistanceUnit, LocationData, Radii, Zone } from '../types';
+import { DEFAULT_RADIUS_KM } from '../constants';
+import { coverageStats, findOverlaps } from '../utils/coverage';
+import { circleAreaKm2, polygonAreaKm2 } from '../utils/geo';
+import { groupByRegion } from '../utils/regions';
+import { downloadUrl } from '../utils/download';
+import { formatArea, formatDistance } from '../utils/units';
+
+interface CampaignReportProps {
+    locations: LocationData[];
+    radii: Radii;
+    replacements: Map<number, Zone>;
+    unit: DistanceUnit;
+    scenarioLabel: string;
+    filterSummary: string[];
+    timelineDate: string | null;
+    captureMap: () => Promise<{ url: string; hasBasemap: boolean }>;
+    onClose: () => void;
+}
+
+const CampaignReport: React.FC<CampaignReportProps> = ({
+    locations, radii, replacements, unit, scenarioLabel, filterSummary, timelineDate, captureMap, onClose,
+}) => {
+    const [snapshot, setSnapshot] = useState<{ url: string; hasBasemap: boolean } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [createdAt] = useState(() => new Date());
+
+    // Effect to capture the map once, as it was when the report was opened
+    useEffect(() => {
+        captureMap()
+            .then(setSnapshot)
+            .catch(err => setError(err instanceof Error ? err.message : String(err)));
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    const radiusOf = (loc: LocationData) => radii[loc.id] ?? DEFAULT_RADIUS_KM;
+    const areaOf = (loc: LocationData) => {
+        const zone = replacements.get(loc.id);
+        return zone ? polygonAreaKm2(zone.points) : circleAreaKm2(radiusOf(loc));
+    };
+    // Region order, busiest hotspots first within each region
+    const groups = groupByRegion([...locations].sort((a, b) => b.courierNeed - a.courierNeed), radii, DEFAULT_RADIUS_KM);
+    const totalNeed = locations.reduce((sum, loc) => sum + loc.courierNeed, 0);
+
+    // Area covered by a set of hotspots: the union of their circles, so overlaps count once, plus any replacement zones
+    const coveredArea = (members: LocationData[]) => {
+        const circles = members.filter(loc => !replacements.has(loc.id));
+        const circleRadii: Radii = Object.fromEntries(circles.map(loc => [loc.id, radiusOf(loc)]));
+        const zoneArea = members.filter(loc => replacements.has(loc.id)).reduce((sum, loc) => sum + areaOf(loc), 0);
+        return coverageStats(circles, circleRadii, findOverlaps(circles, circleRadii)).unionAreaKm2 + zoneArea;
+    };
+    // The union is sampled on a grid, so it is only worked out again when the plan changes
+    const { regionAreas, totalArea } = useMemo(() => ({
+        regionAreas: new Map(groups.map(group => [group.region, coveredArea(group.locations)])),
+        totalArea: coveredArea(locations),
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }), [locations, radii, replacements]);
+
+    return createPortal(
+        <div className="print-report fixed inset-0 z-[2000] bg-white overflow-y-auto">
+            <div className="print-controls sticky top-0 flex items-center justify-end gap-2 px-4 py-2 bg-white border-b border-gray-200">
+                <button
+                    onClick={() => snapshot && downloadUrl(`campaign-map-${createdAt.toISOString().slice(0, 10)}.png`, snapshot.url)}
+                    disabled={!snapshot}
+                    className="px-3 py-1 text-sm rounded-md border border-gray-300 text-gray-700 disabled:text-gray-400"
+                >
+                    Download map (PNG)
+                </button>
+                <button onClick={() => window.print()} className="px-3 py-1 text-sm rounded-md bg-blue-600 text-white hover:bg-blue-700">Print / Save as PDF</button>
+                <button onClick={onClose} className="px-3 py-1 text-sm rounded-md border border-gray-300 text-gray-700">Close</button>
+            </div>
+
+            <article className="max-w-4xl mx-auto p-6 text-gray-800">
+                <header className="mb-4">
+                    <h1 className="text-2xl font-bold">Courier Campaign Report</h1>
+                    <p className="text-sm text-gray-600">
+                        {createdAt.toLocaleString()} · {scenarioLabel}
+                        {timelineDate && <> · need for the week of {timelineDate}</>}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                        {filterSummary.length > 0 ? `Filtered: ${filterSummary.join('; ')}` : 'All hotspots'}
+                    </p>
+                </header>
+
+                <section className="print-avoid-break mb-6">
+                    {snapshot ? (
+                        <>
+                            <img src={snapshot.url} alt="Map of the campaign hotspots and their coverage" className="w-full border border-gray-200" />
+                            {!snapshot.hasBasemap && <p className="mt-1 text-xs text-amber-600">The basemap tiles could not be captured, so the map shows coverage only.</p>}
+                        </>
+                    ) : error ? (
+                        <p className="text-red-600">Map snapshot failed: {error}</p>
+                    ) : (
+                        <p className="text-gray-500">Capturing map…</p>
+                    )}
+                </section>
+
+                <section className="print-avoid-break mb-6">
+                    <h2 className="text-lg font-bold mb-2">Totals by region</h2>
+                    <table className="w-full text-sm">
+                        <thead className="border-b border-gray-300 text-left">
+                            <tr>
+                                <th className="py-1">Region</th>
+                                <th className="py-1 text-right">Hotspots</th>
+                                <th className="py-1 text-right">Need</th>
+                                <th className="py-1 text-right">Covered area</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {groups.map(group => (
+                                <tr key={group.region}>
+                                    <td className="py-0.5">{group.region}</td>
+                                    <td className="py-0.5 text-right">{group.locations.length}</td>
+                                    <td className="py-0.5 text-right">{group.courierNeed.toLocaleString()}</td>
+                                    <td className="py-0.5 text-right">{formatArea(regionAreas.get(group.region) ?? 0, unit)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                        <tfoot className="border-t border-gray-300 font-semibold">
+                            <tr>
+                                <td className="py-1">Total</td>
+                                <td className="py-1 text-right">{locations.length}</td>
+                                <td className="py-1 text-right">{totalNeed.toLocaleString()}</td>
+                                <td className="py-1 text-right">{formatArea(totalArea, unit)}</td>
+                            </tr>
+                        </tfoot>
+                    </table>
+                    <p className="mt-1 text-xs text-gray-500">Covered area counts ground inside overlapping circles once. Zones that replace a circle are added at their own area. In the hotspot table, each row is that hotspot's whole circle or zone.</p>
+                </section>
+
+                <section>
+                    <h2 className="text-lg font-bold mb-2">Hotspots</h2>
+                    <table className="w-full text-sm">
+                        <thead className="border-b border-gray-300 text-left">
+                            <tr>
+                                <th className="py-1">Hotspot</th>
+                                <th className="py-1">Region</th>
+                                <th className="py-1 text-right">Need</th>
+                                <th className="py-1 text-right">Radius</th>
+                                <th className="py-1 text-right">Covered area</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {groups.flatMap(group => group.locations.map(loc => (
+                                <tr key={loc.id}>
+                                    <td className="py-0.5">{loc.city}</td>
+                                    <td className="py-0.5">{group.region}</td>
+                                    <td className="py-0.5 text-right">{loc.courierNeed}</td>
+                                    <td className="py-0.5 text-right">{replacements.has(loc.id) ? 'zone' : formatDistance(radiusOf(loc), unit)}</td>
+                                    <td className="py-0.5 text-right">{formatArea(areaOf(loc), unit)}</td>
+                                </tr>
+                            )))}
+                        </tbody>
+                    </table>
+                </section>
+            </article>
+        </div>,
+        document.body
+    );
+};
+
+export default CampaignReport;
@@ -0,0 +1,52 @@
+import React from 'react';
+import type { CatchmentCell, CoverageGaps, DistanceUnit } from '../types';
+import { formatArea, formatDistance } from '../utils/units';
+
+interface CatchmentPanelProps {
+    cells: CatchmentCell[];
+    gaps: CoverageGaps;
+    selectedId: number | null;
+    unit: DistanceUnit;
+    onSelectCell: (cell: CatchmentCell) => void;
+}
+
+// How many catchments to list as candidates for a new hub
+const GAP_LIST_COUNT = 5;
+
+const CatchmentPanel: React.FC<CatchmentPanelProps> = ({ cells, gaps, selectedId, unit, onSelectCell }) => {
+    const uncoveredShare = gaps.landKm2 > 0 ? (gaps.uncoveredKm2 / gaps.landKm2) * 100 : 0;
+    const largestGaps = [...cells]
+        .sort((a, b) => (gaps.byLocation[b.location.id] ?? 0) - (gaps.byLocation[a.location.id] ?? 0))
+        .slice(0, GAP_LIST_COUNT);
+
+    return (
+        <div className="text-sm">
+            <dl className="grid grid-cols-2 gap-x-2 gap-y-1 text-gray-700">
+                <dt>Land area</dt>
+                <dd className="text-right font-semibold">{formatArea(gaps.landKm2, unit)}</dd>
+                <dt>Outside every circle</dt>
+                <dd className="text-right font-semibold text-amber-600">{formatArea(gaps.uncoveredKm2, unit)} ({uncoveredShare.toFixed(0)}%)</dd>
+            </dl>
+            <p className="mt-1 text-xs text-gray-500">Click a catchment on the map for its area, nearest hotspot and farthest point.</p>
+
+            <p className="mt-3 mb-1 font-semibold text-gray-700">Largest gaps by catchment</p>
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+                {largestGaps.map(cell => (
+                    <li
+                        key={cell.location.id}
+                        onClick={() => onSelectCell(cell)}
+                        className={`px-2 py-1 flex justify-between gap-2 cursor-pointer hover:bg-blue-50 ${cell.location.id === selectedId ? 'bg-blue-50' : ''}`}
+                    >
+                        <span>
+                            <span className="font-semibold text-gray-700">{cell.location.city}</span>
+                            <span className="block text-xs text-gray-500">farthest point {formatDistance(cell.farthest.distanceKm, unit, 0)} away</span>
+                        </span>
+                        <span className="text-right whitespace-nowrap text-amber-600">{formatArea(gaps.byLocation[cell.location.id] ?? 0, unit)}</span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default CatchmentPanel;
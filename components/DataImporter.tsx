@@ -0,0 +1,149 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { ImportedLocation, ImportIssue, ImportMode, LocationData } from '../types';
+import { applyImport, buildLocations, parseLocationFile, validateLocations } from '../utils/importData';
+
+interface DataImporterProps {
+    locations: LocationData[];
+    onApply: (locations: LocationData[]) => void;
+    onReset: () => void;
+}
+
+interface PendingImport {
+    fileName: string;
+    locations: ImportedLocation[];
+    issues: ImportIssue[];
+}
+
+export const IssueList: React.FC<{ issues: ImportIssue[] }> = ({ issues }) => (
+    <ul className="max-h-40 overflow-y-auto text-xs divide-y divide-gray-100 border border-gray-200 rounded-md">
+        {issues.map((issue, index) => (
+            <li key={index} className="px-2 py-1 flex gap-2">
+                <span className={`font-semibold ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}`}>
+                    Row {issue.row}
+                </span>
+                <span className="text-gray-700">
+                    {issue.city && <span className="font-semibold">{issue.city}: </span>}
+                    {issue.message}
+                </span>
+            </li>
+        ))}
+    </ul>
+);
+
+const DataImporter: React.FC<DataImporterProps> = ({ locations, onApply, onReset }) => {
+    const [mode, setMode] = useState<ImportMode>('replace');
+    const [isDragging, setIsDragging] = useState(false);
+    const [pending, setPending] = useState<PendingImport | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [showDatasetIssues, setShowDatasetIssues] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const datasetIssues = useMemo(() => validateLocations(locations), [locations]);
+
+    const readFile = async (file: File) => {
+        setError(null);
+        setPending(null);
+        try {
+            const text = await file.text();
+            const { locations: parsed, issues } = buildLocations(parseLocationFile(file.name, text));
+            setPending({
+                fileName: file.name,
+                locations: parsed,
+                issues: [...issues, ...validateLocations(parsed)].sort((a, b) => a.row - b.row),
+            });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        setIsDragging(false);
+        const file = e.dataTransfer.files[0];
+        if (file) readFile(file);
+    };
+
+    const handleApply = () => {
+        if (!pending) return;
+        onApply(applyImport(locations, pending.locations, mode));
+        setPending(null);
+    };
+
+    const errorCount = pending ? pending.issues.filter(issue => issue.severity === 'error').length : 0;
+
+    return (
+        <div>
+            <div
+                onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                onClick={() => fileInputRef.current?.click()}
+                className={`border-2 border-dashed rounded-md p-3 text-center text-sm cursor-pointer transition-colors duration-150 ${isDragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:bg-gray-50'}`}
+            >
+                <p className="text-gray-700">Drop a CSV or GeoJSON file, or click to browse</p>
+                <p className="text-xs text-gray-500">CSV columns: city, region, lat, lng, courierNeed</p>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".csv,.geojson,.json"
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) readFile(file);
+                        e.target.value = '';
+                    }}
+                />
+            </div>
+
+            <div className="flex items-center gap-4 mt-2 text-sm text-gray-700">
+                <label className="flex items-center gap-1">
+                    <input type="radio" name="import-mode" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                    Replace
+                </label>
+                <label className="flex items-center gap-1">
+                    <input type="radio" name="import-mode" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                    Merge
+                </label>
+                <button onClick={onReset} className="ml-auto text-xs text-blue-600 hover:underline">
+                    Reset to built-in data
+                </button>
+            </div>
+
+            {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+            {pending && (
+                <div className="mt-2 p-2 bg-gray-50 rounded-md">
+                    <p className="text-sm text-gray-700">
+                        <span className="font-semibold">{pending.fileName}</span>: {pending.locations.length} hotspot(s) ready
+                        {errorCount > 0 && <span className="text-red-600">, {errorCount} row(s) skipped</span>}
+                    </p>
+                    {pending.issues.length > 0 && <div className="mt-1"><IssueList issues={pending.issues} /></div>}
+                    <div className="flex gap-2 mt-2">
+                        <button
+                            onClick={handleApply}
+                            disabled={pending.locations.length === 0}
+                            className="px-3 py-1 text-sm rounded-md bg-blue-600 text-white disabled:bg-gray-300"
+                        >
+                            {mode === 'replace' ? 'Replace dataset' : 'Merge into dataset'}
+                        </button>
+                        <button onClick={() => setPending(null)} className="px-3 py-1 text-sm rounded-md border border-gray-300">
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <div className="mt-2 text-sm">
+                <button onClick={() => setShowDatasetIssues(!showDatasetIssues)} className="text-gray-700 hover:underline">
+                    Current data: {locations.length} hotspots,{' '}
+                    <span className={datasetIssues.length > 0 ? 'text-amber-600 font-semibold' : 'text-green-600'}>
+                        {datasetIssues.length} issue(s)
+                    </span>
+                </button>
+                {showDatasetIssues && datasetIssues.length > 0 && <div className="mt-1"><IssueList issues={datasetIssues} /></div>}
+            </div>
+        </div>
+    );
+};
+
+export default DataImporter;
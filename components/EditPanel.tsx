@@ -0,0 +1,125 @@
+import React from 'react';
+import type { LocationChange, LocationDraft } from '../types';
+import { validateDraft } from '../utils/editing';
+
+interface EditPanelProps {
+    draft: LocationDraft | null;
+    changes: LocationChange[];
+    undoLabel: string | null;
+    redoLabel: string | null;
+    onDraftChange: (draft: LocationDraft) => void;
+    onSaveDraft: () => void;
+    onCancelDraft: () => void;
+    onUndo: () => void;
+    onRedo: () => void;
+    onRevertChange: (change: LocationChange) => void;
+    onRevertAll: () => void;
+}
+
+const CHANGE_STYLES: { [kind in LocationChange['kind']]: string } = {
+    added: 'text-green-700',
+    removed: 'text-red-600 line-through',
+    modified: 'text-amber-700',
+};
+
+const EditPanel: React.FC<EditPanelProps> = ({
+    draft, changes, undoLabel, redoLabel,
+    onDraftChange, onSaveDraft, onCancelDraft, onUndo, onRedo, onRevertChange, onRevertAll,
+}) => {
+    const draftError = draft ? validateDraft(draft) : null;
+
+    return (
+        <div className="text-sm">
+            <p className="text-xs text-gray-500 mb-2">
+                Click the map to add a hotspot. Drag markers to move them; edit or delete from a marker's popup.
+            </p>
+
+            <div className="flex gap-2 mb-2">
+                <button
+                    onClick={onUndo}
+                    disabled={!undoLabel}
+                    title={undoLabel ? `Undo ${undoLabel}` : 'Nothing to undo'}
+                    className="flex-1 px-2 py-1 rounded-md border border-gray-300 text-gray-700 disabled:text-gray-300"
+                >
+                    ↶ Undo
+                </button>
+                <button
+                    onClick={onRedo}
+                    disabled={!redoLabel}
+                    title={redoLabel ? `Redo ${redoLabel}` : 'Nothing to redo'}
+                    className="flex-1 px-2 py-1 rounded-md border border-gray-300 text-gray-700 disabled:text-gray-300"
+                >
+                    ↷ Redo
+                </button>
+            </div>
+
+            {draft && (
+                <form
+                    onSubmit={(e) => {
+                        e.preventDefault();
+                        if (!draftError) onSaveDraft();
+                    }}
+                    className="p-2 mb-2 bg-blue-50 rounded-md space-y-2"
+                >
+                    <p className="font-semibold text-gray-700">{draft.id === undefined ? 'New hotspot' : 'Edit hotspot'}</p>
+                    <input
+                        autoFocus
+                        placeholder="City"
+                        value={draft.city}
+                        onChange={(e) => onDraftChange({ ...draft, city: e.target.value })}
+                        className="w-full px-2 py-1 border border-gray-300 rounded-md"
+                    />
+                    <input
+                        placeholder="Region"
+                        value={draft.region}
+                        onChange={(e) => onDraftChange({ ...draft, region: e.target.value })}
+                        className="w-full px-2 py-1 border border-gray-300 rounded-md"
+                    />
+                    <div className="flex items-center gap-2">
+                        <label htmlFor="draft-need" className="text-xs text-gray-600 whitespace-nowrap">Courier need</label>
+                        <input
+                            id="draft-need"
+                            type="number"
+                            min="0"
+                            value={draft.courierNeed}
+                            onChange={(e) => onDraftChange({ ...draft, courierNeed: Number(e.target.value) })}
+                            className="w-full px-2 py-1 border border-gray-300 rounded-md"
+                        />
+                    </div>
+                    <p className="text-xs text-gray-500">{draft.lat.toFixed(4)}, {draft.lng.toFixed(4)}</p>
+                    {draftError && <p className="text-xs text-red-600">{draftError}</p>}
+                    <div className="flex gap-2">
+                        <button type="submit" disabled={!!draftError} className="px-3 py-1 rounded-md bg-blue-600 text-white disabled:bg-gray-300">
+                            {draft.id === undefined ? 'Add' : 'Save'}
+                        </button>
+                        <button type="button" onClick={onCancelDraft} className="px-3 py-1 rounded-md border border-gray-300">
+                            Cancel
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            <div className="flex items-center justify-between">
+                <span className="font-semibold text-gray-700">{changes.length} change{changes.length === 1 ? '' : 's'} from original</span>
+                {changes.length > 0 && (
+                    <button onClick={onRevertAll} className="text-xs text-red-600 hover:underline">Revert all</button>
+                )}
+            </div>
+            {changes.length > 0 && (
+                <ul className="mt-1 max-h-40 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md text-xs">
+                    {changes.map(change => (
+                        <li key={`${change.kind}-${change.location.id}`} className="px-2 py-1 flex justify-between gap-2">
+                            <span>
+                                <span className={`font-semibold ${CHANGE_STYLES[change.kind]}`}>{change.location.city}</span>
+                                <span className="text-gray-500"> {change.kind}{change.fields.length > 0 && `: ${change.fields.join(', ')}`}</span>
+                            </span>
+                            <button onClick={() => onRevertChange(change)} className="text-blue-600 hover:underline">Revert</button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default EditPanel;
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import type { DistanceUnit, LocationData, Radii, Zone } from '../types';
+import { exportPlan, type ExportFormat } from '../utils/exportPlan';
+
+interface ExportMenuProps {
+    locations: LocationData[];
+    radii: Radii;
+    zones: Zone[];
+    unit: DistanceUnit;
+    isFiltered: boolean;
+}
+
+const FORMAT_OPTIONS: { format: ExportFormat; label: string; hint: string }[] = [
+    { format: 'geojson', label: 'GeoJSON', hint: 'Hotspots and coverage circles' },
+    { format: 'kml', label: 'KML', hint: 'Google Earth / ad platforms' },
+    { format: 'csv', label: 'CSV', hint: 'city, lat, lng, radius' },
+    { format: 'outcodes', label: 'Postcode districts', hint: 'Outcodes inside each radius (CSV)' },
+    { format: 'zones', label: 'Zones', hint: 'Drawn target zones with their stats (GeoJSON)' },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ locations, radii, zones, unit, isFiltered }) => {
+    const [isOpen, setIsOpen] = useState(false);
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                disabled={locations.length === 0}
+                className="w-full px-3 py-2 text-sm font-semibold rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300"
+            >
+                Export plan ({locations.length} hotspot{locations.length === 1 ? '' : 's'}{isFiltered ? ', filtered' : ''})
+            </button>
+            {isOpen && (
+                <ul className="absolute left-0 right-0 bottom-full mb-1 bg-white border border-gray-200 rounded-md shadow-lg divide-y divide-gray-100">
+                    {FORMAT_OPTIONS.filter(({ format }) => format !== 'zones' || zones.length > 0).map(({ format, label, hint }) => (
+                        <li key={format}>
+                            <button
+                                onClick={() => {
+                                    exportPlan(format, locations, radii, zones, unit);
+                                    setIsOpen(false);
+                                }}
+                                className="w-full text-left px-3 py-2 hover:bg-blue-50"
+                            >
+                                <span className="font-semibold text-gray-700 text-sm">{label}</span>
+                                <span className="block text-xs text-gray-500">{format === 'csv' ? `${hint}_${unit}` : hint}</span>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default ExportMenu;
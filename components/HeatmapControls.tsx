@@ -0,0 +1,61 @@
+import React from 'react';
+import type { HeatmapSettings, HeatNormalisation } from '../types';
+import { GRADIENT_PRESETS, gradientCss, HEAT_NORMALISATIONS } from '../utils/heatmap';
+
+interface HeatmapControlsProps {
+    settings: HeatmapSettings;
+    onChange: (settings: HeatmapSettings) => void;
+}
+
+const HeatmapControls: React.FC<HeatmapControlsProps> = ({ settings, onChange }) => (
+    <div className="pl-2 mb-3 space-y-2 text-sm border-l-2 border-blue-100">
+        <div>
+            <label htmlFor="heat-radius" className="text-sm">Radius: <span className="font-bold">{settings.radius} px</span></label>
+            <input
+                type="range"
+                id="heat-radius"
+                min="5" max="60"
+                value={settings.radius}
+                onChange={(e) => onChange({ ...settings, radius: Number(e.target.value) })}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            />
+        </div>
+        <div>
+            <label htmlFor="heat-blur" className="text-sm">Blur: <span className="font-bold">{settings.blur} px</span></label>
+            <input
+                type="range"
+                id="heat-blur"
+                min="1" max="40"
+                value={settings.blur}
+                onChange={(e) => onChange({ ...settings, blur: Number(e.target.value) })}
+                className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            />
+        </div>
+        <div>
+            <label htmlFor="heat-normalisation" className="block text-xs text-gray-600">Intensity scale</label>
+            <select
+                id="heat-normalisation"
+                value={settings.normalisation}
+                onChange={(e) => onChange({ ...settings, normalisation: e.target.value as HeatNormalisation })}
+                title={HEAT_NORMALISATIONS.find(option => option.value === settings.normalisation)?.hint}
+                className="w-full px-2 py-1 border border-gray-300 rounded-md"
+            >
+                {HEAT_NORMALISATIONS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+            </select>
+        </div>
+        <div>
+            <label htmlFor="heat-gradient" className="block text-xs text-gray-600">Gradient</label>
+            <select
+                id="heat-gradient"
+                value={settings.gradient}
+                onChange={(e) => onChange({ ...settings, gradient: e.target.value })}
+                className="w-full px-2 py-1 border border-gray-300 rounded-md"
+            >
+                {Object.entries(GRADIENT_PRESETS).map(([name, { label }]) => <option key={name} value={name}>{label}</option>)}
+            </select>
+            <div className="w-full h-2 mt-1 rounded" style={{ background: gradientCss(settings.gradient) }} />
+        </div>
+    </div>
+);
+
+export default HeatmapControls;
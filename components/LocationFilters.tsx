@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import type { LocationFilter, LocationSortKey } from '../types';
+import { DEFAULT_LOCATION_FILTER, isFilterActive } from '../utils/regions';
+
+interface LocationFiltersProps {
+    filter: LocationFilter;
+    regions: { region: string; count: number }[];
+    tags: { tag: string; count: number }[];
+    sortKey: LocationSortKey;
+    onChange: (filter: LocationFilter) => void;
+    onSortChange: (sortKey: LocationSortKey) => void;
+}
+
+const SORT_OPTIONS: { value: LocationSortKey; label: string }[] = [
+    { value: 'need', label: 'Courier need' },
+    { value: 'name', label: 'Name' },
+    { value: 'distance', label: 'Distance from map centre' },
+];
+
+const parseNeed = (text: string) => (text === '' ? null : Math.max(0, Number(text)));
+
+const LocationFilters: React.FC<LocationFiltersProps> = ({ filter, regions, tags, sortKey, onChange, onSortChange }) => {
+    const [showRegions, setShowRegions] = useState(false);
+
+    const toggleRegion = (region: string) => onChange({
+        ...filter,
+        regions: filter.regions.includes(region)
+            ? filter.regions.filter(selected => selected !== region)
+            : [...filter.regions, region],
+    });
+
+    // A chosen tag stays listed after its last hotspot loses it, so the filter can still be turned off
+    const tagOptions = [...tags, ...filter.tags.filter(tag => !tags.some(t => t.tag === tag)).map(tag => ({ tag, count: 0 }))];
+
+    const toggleTag = (tag: string) => onChange({
+        ...filter,
+        tags: filter.tags.includes(tag) ? filter.tags.filter(selected => selected !== tag) : [...filter.tags, tag],
+    });
+
+    return (
+        <div className="mt-2 text-xs text-gray-700 space-y-2">
+            <div className="flex items-center gap-2">
+                <button onClick={() => setShowRegions(!showRegions)} className="flex-grow text-left px-2 py-1 border border-gray-300 rounded-md">
+                    {filter.regions.length === 0 ? 'All regions' : `${filter.regions.length} region${filter.regions.length === 1 ? '' : 's'}`} {showRegions ? '▲' : '▼'}
+                </button>
+                <label htmlFor="location-sort" className="sr-only">Sort by</label>
+                <select
+                    id="location-sort"
+                    value={sortKey}
+                    onChange={(e) => onSortChange(e.target.value as LocationSortKey)}
+                    className="px-1 py-1 border border-gray-300 rounded-md"
+                >
+                    {SORT_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                </select>
+            </div>
+            {showRegions && (
+                <ul className="max-h-40 overflow-y-auto border border-gray-200 rounded-md p-1">
+                    {regions.map(({ region, count }) => (
+                        <li key={region}>
+                            <label className="flex items-center gap-2 px-1 py-0.5 hover:bg-gray-50 cursor-pointer">
+                                <input type="checkbox" checked={filter.regions.includes(region)} onChange={() => toggleRegion(region)} />
+                                <span className="flex-grow">{region}</span>
+                                <span className="text-gray-400">{count}</span>
+                            </label>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {tagOptions.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1">
+                    <span>Tags</span>
+                    {tagOptions.map(({ tag, count }) => (
+                        <button
+                            key={tag}
+                            onClick={() => toggleTag(tag)}
+                            className={`px-2 py-0.5 rounded-md ${filter.tags.includes(tag) ? 'bg-blue-600 text-white' : 'border border-gray-300 text-gray-700'}`}
+                        >
+                            {tag} <span className={filter.tags.includes(tag) ? 'text-blue-100' : 'text-gray-400'}>{count}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+            {filter.ids !== null && (
+                <p className="flex items-center justify-between px-2 py-1 rounded-md bg-blue-50 text-blue-800">
+                    Only {filter.ids.length} picked hotspot{filter.ids.length === 1 ? '' : 's'}
+                    <button onClick={() => onChange({ ...filter, ids: null })} className="text-blue-600 hover:underline">Show all</button>
+                </p>
+            )}
+            <div className="flex items-center gap-2">
+                <span className="whitespace-nowrap">Need</span>
+                <input
+                    type="number"
+                    min="0"
+                    placeholder="min"
+                    value={filter.minNeed ?? ''}
+                    onChange={(e) => onChange({ ...filter, minNeed: parseNeed(e.target.value) })}
+                    aria-label="Minimum courier need"
+                    className="w-full px-2 py-1 border border-gray-300 rounded-md"
+                />
+                <span>–</span>
+                <input
+                    type="number"
+                    min="0"
+                    placeholder="max"
+                    value={filter.maxNeed ?? ''}
+                    onChange={(e) => onChange({ ...filter, maxNeed: parseNeed(e.target.value) })}
+                    aria-label="Maximum courier need"
+                    className="w-full px-2 py-1 border border-gray-300 rounded-md"
+                />
+                {isFilterActive(filter) && (
+                    <button onClick={() => onChange(DEFAULT_LOCATION_FILTER)} className="text-blue-600 hover:underline whitespace-nowrap">Clear</button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default LocationFilters;
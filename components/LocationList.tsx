@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import type { DistanceUnit, LocationData, NeedTrend, RegionGroup } from '../types';
+import { UNASSIGNED_REGION } from '../utils/regions';
+import { formatDistance } from '../utils/units';
+import TrendIndicator, { Sparkline } from './TrendIndicator';
+
+interface LocationListProps {
+    groups: RegionGroup[];
+    unit: DistanceUnit;
+    onSelect: (location: LocationData) => void;
+    detail?: (location: LocationData) => string | null;
+    trends?: Map<number, NeedTrend | null>;
+    risingIds?: Set<number>;
+    timelineDate?: string | null;
+    filled?: { [locationId: number]: number };
+    // Checkboxes for the multi-selection, per hotspot and per region
+    checkedIds?: Set<number>;
+    onCheck?: (ids: number[], checked: boolean) => void;
+}
+
+const LocationList: React.FC<LocationListProps> = ({ groups, unit, onSelect, detail, trends, risingIds, timelineDate, filled, checkedIds, onCheck }) => {
+    const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+    const toggle = (region: string) => setCollapsed(prev => {
+        const next = new Set(prev);
+        if (next.has(region)) next.delete(region);
+        else next.add(region);
+        return next;
+    });
+
+    return (
+        <ul>
+            {groups.map(group => {
+                const isCollapsed = collapsed.has(group.region);
+                const isUnassigned = group.region === UNASSIGNED_REGION;
+                const groupIds = group.locations.map(loc => loc.id);
+                const isGroupChecked = !!checkedIds && groupIds.every(id => checkedIds.has(id));
+                return (
+                    <li key={group.region} className="border-b border-gray-200">
+                        <div className={`flex items-center sticky top-0 ${isUnassigned ? 'bg-amber-50' : 'bg-gray-50'}`}>
+                            {onCheck && (
+                                <input
+                                    type="checkbox"
+                                    checked={isGroupChecked}
+                                    onChange={() => onCheck(groupIds, !isGroupChecked)}
+                                    aria-label={`Select every hotspot in ${group.region}`}
+                                    className="ml-3"
+                                />
+                            )}
+                            <button
+                                onClick={() => toggle(group.region)}
+                                aria-expanded={!isCollapsed}
+                                className="flex-grow flex items-baseline justify-between gap-2 px-3 py-2 text-left"
+                            >
+                                <span className={`font-bold text-sm ${isUnassigned ? 'text-amber-700' : 'text-gray-800'}`}>
+                                    {isCollapsed ? '▸' : '▾'} {group.region}
+                                </span>
+                                <span className="text-xs text-gray-500 whitespace-nowrap">
+                                    {group.locations.length} · need {group.courierNeed.toLocaleString()} · avg {formatDistance(group.averageRadius, unit)}
+                                </span>
+                            </button>
+                        </div>
+                        {isUnassigned && !isCollapsed && (
+                            <p className="px-3 pb-1 text-xs text-amber-700">These hotspots have no region; set one in edit mode or the data file.</p>
+                        )}
+                        {!isCollapsed && (
+                            <ul className="divide-y divide-gray-200">
+                                {group.locations.map(loc => {
+                                    const trend = trends?.get(loc.id);
+                                    return (
+                                        <li key={loc.id} onClick={() => onSelect(loc)}
+                                            className={`p-3 hover:bg-blue-50 cursor-pointer transition-colors duration-150 ${checkedIds?.has(loc.id) ? 'bg-blue-50' : ''} ${loc.excluded ? 'opacity-60' : ''}`}>
+                                            <p className="font-semibold text-gray-700 flex items-center justify-between gap-2">
+                                                <span className="flex items-center gap-2">
+                                                    {onCheck && (
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={checkedIds?.has(loc.id) ?? false}
+                                                            onClick={(e) => e.stopPropagation()}
+                                                            onChange={(e) => onCheck([loc.id], e.target.checked)}
+                                                            aria-label={`Select ${loc.city}`}
+                                                        />
+                                                    )}
+                                                    {loc.city}
+                                                </span>
+                                                <span className="flex items-center gap-1">
+                                                    {loc.excluded && <span className="text-xs font-semibold text-gray-600 bg-gray-100 px-1 rounded">Excluded</span>}
+                                                    {risingIds?.has(loc.id) && <span className="text-xs font-semibold text-red-600 bg-red-50 px-1 rounded">Rising</span>}
+                                                </span>
+                                            </p>
+                                            {loc.tags && (
+                                                <p className="mt-0.5 flex flex-wrap gap-1">
+                                                    {loc.tags.map(tag => <span key={tag} className="text-xs text-blue-700 bg-blue-50 border border-blue-100 px-1 rounded">{tag}</span>)}
+                                                </p>
+                                            )}
+                                            <p className="text-xs text-gray-500 flex items-center gap-2">
+                                                <span>
+                                                    {loc.courierNeed} sign-ups
+                                                    {detail?.(loc) && ` · ${detail(loc)}`}
+                                                </span>
+                                                {filled && (
+                                                    <span className={(filled[loc.id] ?? 0) >= loc.courierNeed ? 'text-green-700' : ''}>
+                                                        {filled[loc.id] ?? 0} / {loc.courierNeed} filled
+                                                    </span>
+                                                )}
+                                                {trend && <TrendIndicator trend={trend} />}
+                                                {loc.history && <Sparkline points={loc.history} highlightDate={timelineDate} />}
+                                            </p>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        )}
+                    </li>
+                );
+            })}
+        </ul>
+    );
+};
+
+export default LocationList;
@@ -0,0 +1,109 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { DistanceUnit, LocationData, NeedTrend } from '../types';
+import { outcodesWithinRadius } from '../utils/postcodes';
+import { clampRadiusKm, formatDistance, fromUnit, radiusRange, roundTo, toUnit } from '../utils/units';
+import TrendIndicator, { Sparkline } from './TrendIndicator';
+
+interface LocationPopupProps {
+    location: LocationData;
+    radius: number;
+    unit: DistanceUnit;
+    isEditMode: boolean;
+    // Embedded maps show the radius and notes without letting them be changed
+    readOnly?: boolean;
+    trend?: NeedTrend | null;
+    timelineDate?: string | null;
+    filled?: number;
+    onRadiusChange: (id: number, radius: number) => void;
+    onNotesChange: (id: number, notes: string) => void;
+    onEdit: (location: LocationData) => void;
+    onDelete: (location: LocationData) => void;
+}
+
+const LocationPopup: React.FC<LocationPopupProps> = ({ location, radius, unit, isEditMode, readOnly = false, trend, timelineDate, filled, onRadiusChange, onNotesChange, onEdit, onDelete }) => {
+    const [notes, setNotes] = useState(location.notes ?? '');
+    const outcodes = useMemo(() => outcodesWithinRadius(location, radius).map(match => match.outcode), [location, radius]);
+
+    // Effect to pick up notes changed elsewhere (undo, import) while the popup is open
+    useEffect(() => setNotes(location.notes ?? ''), [location.notes]);
+
+    const range = radiusRange(unit);
+    const displayRadius = roundTo(toUnit(radius, unit));
+
+    const handleRadiusInput = (text: string) => {
+        const value = Number(text);
+        if (text !== '' && Number.isFinite(value)) onRadiusChange(location.id, clampRadiusKm(fromUnit(value, unit)));
+    };
+
+    return (
+        <div className="w-56">
+            <h3 className="font-bold text-lg">{location.city}</h3>
+            <p className="text-sm text-gray-600">
+                Courier Need: <span className="font-semibold text-blue-600">{location.courierNeed} sign-ups</span>
+            </p>
+            {filled !== undefined && (
+                <p className={`text-sm ${filled >= location.courierNeed ? 'text-green-700' : 'text-gray-600'}`}>
+                    Applicants: <span className="font-semibold">{filled} / {location.courierNeed} filled</span>
+                </p>
+            )}
+            {location.history && location.history.length > 1 && (
+                <p className="text-xs flex items-center gap-2">
+                    <Sparkline points={location.history} highlightDate={timelineDate} width={100} />
+                    {trend && <TrendIndicator trend={trend} />}
+                </p>
+            )}
+            {readOnly ? (
+                <p className="mt-2 text-sm">Radius: <span className="font-semibold">{formatDistance(radius, unit)}</span></p>
+            ) : (
+                <div className="mt-2">
+                    <label htmlFor={`radius-${location.id}`} className="text-sm">Radius ({unit})</label>
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="range"
+                            id={`radius-${location.id}`}
+                            min={range.min} max={range.max} step={range.step}
+                            value={displayRadius}
+                            onChange={(e) => handleRadiusInput(e.target.value)}
+                            className="flex-grow h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                        />
+                        <input
+                            type="number"
+                            min={range.min} max={range.max} step={range.step}
+                            value={displayRadius}
+                            onChange={(e) => handleRadiusInput(e.target.value)}
+                            aria-label={`Radius for ${location.city} in ${unit}`}
+                            className="w-14 px-1 py-0.5 border border-gray-300 rounded-md text-sm"
+                        />
+                    </div>
+                </div>
+            )}
+            <p className="mt-2 text-xs text-gray-600">
+                {outcodes.length > 0
+                    ? <><span className="font-semibold">{outcodes.length} district{outcodes.length === 1 ? '' : 's'}:</span> {outcodes.join(', ')}</>
+                    : 'No postcode districts within radius'}
+            </p>
+            {readOnly ? (
+                location.notes && <p className="mt-2 text-xs text-gray-600 whitespace-pre-line">{location.notes}</p>
+            ) : (
+                <textarea
+                    value={notes}
+                    placeholder="Notes"
+                    rows={2}
+                    onChange={(e) => setNotes(e.target.value)}
+                    onBlur={() => {
+                        if (notes.trim() !== (location.notes ?? '')) onNotesChange(location.id, notes.trim());
+                    }}
+                    className="mt-2 w-full px-2 py-1 border border-gray-300 rounded-md text-xs"
+                />
+            )}
+            {isEditMode && (
+                <div className="mt-2 flex gap-2">
+                    <button onClick={() => onEdit(location)} className="px-2 py-1 text-xs rounded-md bg-blue-600 text-white">Edit</button>
+                    <button onClick={() => onDelete(location)} className="px-2 py-1 text-xs rounded-md border border-red-300 text-red-700">Delete</button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default LocationPopup;
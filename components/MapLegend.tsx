@@ -0,0 +1,53 @@
+import React from 'react';
+import type { NeedClass, SymbologySettings } from '../types';
+import { gradientCss } from '../utils/heatmap';
+
+interface MapLegendProps {
+    classes: NeedClass[];
+    encoding: SymbologySettings['encoding'];
+    sizedByBudget: boolean;
+    heatGradient: string;
+}
+
+const MapLegend: React.FC<MapLegendProps> = ({ classes, encoding, sizedByBudget, heatGradient }) => (
+    <>
+        <h4 className="font-bold mb-2 text-gray-800">Legend</h4>
+        {classes.length > 0 ? (
+            <>
+                <span className="font-semibold text-gray-700 text-sm">Courier Need (sign-ups)</span>
+                {classes.map((needClass, i) => {
+                    const size = encoding === 'size' || encoding === 'both' ? needClass.size : 12;
+                    const color = encoding === 'colour' || encoding === 'both' ? needClass.color : '#dc2626';
+                    return (
+                        <div key={i} className="flex items-center mb-1">
+                            <div className="w-7 flex justify-center mr-1">
+                                <div className="rounded-full border-2 border-white shadow" style={{ width: size, height: size, backgroundColor: color }} />
+                            </div>
+                            <span className="text-sm text-gray-700">{i === 0 ? '' : '> '}{needClass.min} – {needClass.max}</span>
+                        </div>
+                    );
+                })}
+            </>
+        ) : (
+            <div className="flex items-center mb-1">
+                <div className="bg-red-600 w-4 h-4 rounded-full border-2 border-white mr-2" />
+                <span className="text-sm text-gray-700">Courier Hotspot</span>
+            </div>
+        )}
+        {sizedByBudget && <p className="text-xs text-gray-600 mb-1">Marker size shows budget allocation</p>}
+        <div className="flex items-center mb-2">
+            <div className="w-4 h-4 rounded-full mr-2" style={{ backgroundColor: 'rgba(59, 130, 246, 0.3)', border: '1px solid #000' }} />
+            <span className="text-sm text-gray-700">Coverage Radius</span>
+        </div>
+        <div>
+            <span className="font-semibold text-gray-700 text-sm">Heatmap Intensity</span>
+            <div className="w-full h-4 mt-1 rounded" style={{ background: gradientCss(heatGradient) }} />
+            <div className="flex justify-between text-xs text-gray-600">
+                <span>Low</span>
+                <span>High</span>
+            </div>
+        </div>
+    </>
+);
+
+export default MapLegend;
@@ -0,0 +1,35 @@
+import React from 'react';
+import type { MarkerStyle } from '../types';
+
+interface MarkerIconProps {
+    city: string;
+    style: MarkerStyle;
+    showLabel: boolean;
+    // Ringed while in the multi-selection; faded while left out of the plan
+    isSelected?: boolean;
+    isExcluded?: boolean;
+}
+
+export const DEFAULT_MARKER_STYLE: MarkerStyle = { size: 12, color: '#dc2626' };
+
+// The dot is style.size + border-2 (4px); the container centres it and the label is positioned relative to it
+export const markerContainerSize = (style: MarkerStyle) => style.size + 4;
+
+const MarkerIcon: React.FC<MarkerIconProps> = ({ city, style, showLabel, isSelected = false, isExcluded = false }) => {
+    const containerSize = markerContainerSize(style);
+    return (
+        <div className={`relative ${isExcluded ? 'opacity-40' : ''}`} style={{ width: containerSize, height: containerSize }}>
+            <div
+                className={`rounded-full border-2 border-white shadow-lg absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 ${isSelected ? 'ring-2 ring-blue-500' : ''}`}
+                style={{ width: style.size, height: style.size, backgroundColor: style.color }}
+            />
+            {showLabel && (
+                <div className="absolute" style={{ left: '100%', top: '50%', transform: 'translateY(-50%)', marginLeft: 4 }}>
+                    <div className="bg-white text-gray-800 text-xs font-semibold px-2 py-1 rounded-md shadow-md whitespace-nowrap">{city}</div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default React.memo(MarkerIcon);
@@ -0,0 +1,82 @@
+import React from 'react';
+import type { DistanceUnit, MeasureMode, MeasurePoint } from '../types';
+import { legLengthsKm, polygonAreaKm2 } from '../utils/geo';
+import { formatArea, formatDistance } from '../utils/units';
+
+interface MeasurePanelProps {
+    mode: MeasureMode | null;
+    points: MeasurePoint[];
+    unit: DistanceUnit;
+    onModeChange: (mode: MeasureMode | null) => void;
+    onUndo: () => void;
+    onClear: () => void;
+}
+
+const MODE_OPTIONS: { mode: MeasureMode; label: string }[] = [
+    { mode: 'distance', label: 'Distance' },
+    { mode: 'area', label: 'Area' },
+];
+
+const pointLabel = (point: MeasurePoint, index: number) => point.city ?? `Point ${index + 1}`;
+
+const MeasurePanel: React.FC<MeasurePanelProps> = ({ mode, points, unit, onModeChange, onUndo, onClear }) => {
+    const isArea = mode === 'area';
+    const latLngs = points.map(({ lat, lng }): [number, number] => [lat, lng]);
+    const legs = legLengthsKm(latLngs, isArea);
+    const totalKm = legs.reduce((sum, leg) => sum + leg, 0);
+
+    return (
+        <div className="text-sm">
+            <div className="flex gap-1">
+                {MODE_OPTIONS.map(option => (
+                    <button
+                        key={option.mode}
+                        onClick={() => onModeChange(mode === option.mode ? null : option.mode)}
+                        className={`px-2 py-0.5 rounded-md text-xs ${mode === option.mode ? 'bg-blue-600 text-white' : 'border border-gray-300 text-gray-700'}`}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+            {mode && (
+                <p className="mt-1 text-xs text-gray-500">
+                    Click the map to add points; clicks on or near a hotspot snap to it. Click the active tool again to stop.
+                </p>
+            )}
+
+            {points.length > 1 && (
+                <>
+                    <dl className="mt-2 grid grid-cols-2 gap-x-2 gap-y-1 text-gray-700">
+                        <dt>{isArea ? 'Perimeter' : 'Total distance'}</dt>
+                        <dd className="text-right font-semibold">{formatDistance(totalKm, unit)}</dd>
+                        {isArea && (
+                            <>
+                                <dt>Area</dt>
+                                <dd className="text-right font-semibold">{points.length > 2 ? formatArea(polygonAreaKm2(latLngs), unit, 1) : '–'}</dd>
+                            </>
+                        )}
+                    </dl>
+                    <ul className="mt-2 max-h-32 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md text-xs">
+                        {legs.map((leg, i) => (
+                            <li key={i} className="px-2 py-1 flex justify-between gap-2">
+                                <span className="text-gray-600">
+                                    {pointLabel(points[i], i)} → {pointLabel(points[(i + 1) % points.length], (i + 1) % points.length)}
+                                </span>
+                                <span className="whitespace-nowrap">{formatDistance(leg, unit)}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+
+            {points.length > 0 && (
+                <div className="mt-2 flex gap-2">
+                    <button onClick={onUndo} className="px-2 py-1 text-xs rounded-md border border-gray-300 text-gray-700">Undo last point</button>
+                    <button onClick={onClear} className="px-2 py-1 text-xs rounded-md border border-gray-300 text-gray-700">Clear</button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default MeasurePanel;
@@ -0,0 +1,145 @@
+import React, { useMemo } from 'react';
+import type { DistanceUnit, LocationData, OptimiseMode, OptimiseResult, OptimiseSettings, PlanCoverage, Radii } from '../types';
+import { findOverlaps } from '../utils/coverage';
+import { formatArea, formatDistance, fromUnit, radiusRange, roundTo, toUnit } from '../utils/units';
+
+interface OptimisePanelProps {
+    settings: OptimiseSettings;
+    result: OptimiseResult | null;
+    locations: LocationData[];
+    radii: Radii;
+    unit: DistanceUnit;
+    onChange: (settings: OptimiseSettings) => void;
+    onPreview: () => void;
+    onAccept: () => void;
+    onReject: () => void;
+}
+
+const MODE_OPTIONS: { mode: OptimiseMode; label: string; hint: string }[] = [
+    { mode: 'suggest', label: 'Suggest radii', hint: 'A radius for every listed hotspot from its need and its neighbours. Hotspots closer than twice the minimum radius still overlap' },
+    { mode: 'top-k', label: 'Pick campaigns', hint: 'The hotspots and radii that reach the most need with a fixed number of campaigns' },
+];
+
+const NumberField: React.FC<{ id: string; label: string; value: number; min: number; max: number; onChange: (value: number) => void }> = ({ id, label, value, min, max, onChange }) => (
+    <div>
+        <label htmlFor={id} className="block text-xs text-gray-600">{label}</label>
+        <input
+            id={id}
+            type="number"
+            min={min} max={max}
+            value={value}
+            onChange={(e) => onChange(Math.min(max, Math.max(min, Number(e.target.value))))}
+            className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+        />
+    </div>
+);
+
+const percent = (coverage: PlanCoverage) => (coverage.totalNeed > 0 ? Math.round((100 * coverage.coveredNeed) / coverage.totalNeed) : 0);
+
+const OptimisePanel: React.FC<OptimisePanelProps> = ({ settings, result, locations, radii, unit, onChange, onPreview, onAccept, onReject }) => {
+    const update = (changes: Partial<OptimiseSettings>) => onChange({ ...settings, ...changes });
+    const range = radiusRange(unit);
+    const byId = new Map<number, LocationData>(locations.map(loc => [loc.id, loc]));
+    const changes = result
+        ? result.locationIds.filter(id => result.radii[id] !== radii[id] || settings.mode === 'top-k')
+        : [];
+    // Pairs the proposal leaves overlapping: suggested radii stop at the minimum, however close two hotspots are
+    const remainingOverlaps = useMemo(() => {
+        if (!result) return [];
+        const ids = new Set(result.locationIds);
+        return findOverlaps(locations.filter(loc => ids.has(loc.id) && result.radii[loc.id] !== undefined), result.radii);
+    }, [result, locations]);
+
+    const rows: { label: string; value: (coverage: PlanCoverage) => string }[] = [
+        { label: 'Campaigns', value: coverage => String(coverage.campaigns) },
+        { label: 'Need covered', value: coverage => `${coverage.coveredNeed.toLocaleString()} (${percent(coverage)}%)` },
+        { label: 'Area', value: coverage => formatArea(coverage.areaKm2, unit) },
+        { label: 'Overlapping pairs', value: coverage => String(coverage.overlaps) },
+    ];
+
+    return (
+        <div className="text-sm">
+            <div className="flex gap-1">
+                {MODE_OPTIONS.map(({ mode, label, hint }) => (
+                    <button
+                        key={mode}
+                        title={hint}
+                        onClick={() => update({ mode })}
+                        className={`px-2 py-0.5 rounded-md text-xs ${settings.mode === mode ? 'bg-blue-600 text-white' : 'border border-gray-300 text-gray-700'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+            <p className="mt-1 text-xs text-gray-500">{MODE_OPTIONS.find(option => option.mode === settings.mode)?.hint}</p>
+            <div className="mt-2 grid grid-cols-3 gap-2">
+                <NumberField id="optimise-min" label={`Min radius (${unit})`} value={roundTo(toUnit(settings.minRadiusKm, unit))} min={range.min} max={range.max} onChange={value => update({ minRadiusKm: fromUnit(value, unit) })} />
+                <NumberField id="optimise-max" label={`Max radius (${unit})`} value={roundTo(toUnit(settings.maxRadiusKm, unit))} min={range.min} max={range.max} onChange={value => update({ maxRadiusKm: fromUnit(value, unit) })} />
+                {settings.mode === 'top-k' && (
+                    <NumberField id="optimise-count" label="Campaigns" value={settings.campaignCount} min={1} max={Math.max(1, locations.length)} onChange={campaignCount => update({ campaignCount })} />
+                )}
+            </div>
+            <button
+                onClick={onPreview}
+                disabled={locations.length === 0}
+                className="mt-2 w-full px-3 py-1 rounded-md border border-blue-600 text-blue-700 hover:bg-blue-50 disabled:border-gray-300 disabled:text-gray-400"
+            >
+                Preview for {locations.length} listed hotspot{locations.length === 1 ? '' : 's'}
+            </button>
+
+            {result && (
+                <div className="mt-2">
+                    <table className="w-full text-xs text-gray-700">
+                        <thead>
+                            <tr className="text-gray-500">
+                                <th className="text-left font-normal"></th>
+                                <th className="text-right font-normal">Before</th>
+                                <th className="text-right font-normal">After</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map(({ label, value }) => (
+                                <tr key={label}>
+                                    <td>{label}</td>
+                                    <td className="text-right">{value(result.before)}</td>
+                                    <td className="text-right font-semibold">{value(result.after)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {remainingOverlaps.length > 0 && (
+                        <div className="mt-2 text-xs text-amber-600">
+                            <p>
+                                {remainingOverlaps.length} pair{remainingOverlaps.length === 1 ? ' still overlaps' : 's still overlap'}: the hotspots are
+                                closer than twice the minimum radius. Lower the minimum or exclude one hotspot of each pair.
+                            </p>
+                            <ul className="mt-1 max-h-24 overflow-y-auto">
+                                {remainingOverlaps.map(({ a, b, distanceKm }) => (
+                                    <li key={`${a.id}-${b.id}`}>{a.city} – {b.city}, {formatDistance(distanceKm, unit)} apart</li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                    <p className="mt-2 text-xs text-gray-600">
+                        {settings.mode === 'top-k' ? `${changes.length} campaigns, in the order picked:` : `${changes.length} radius change${changes.length === 1 ? '' : 's'}:`}
+                    </p>
+                    <ul className="max-h-40 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md text-xs">
+                        {changes.map(id => (
+                            <li key={id} className="px-2 py-0.5 flex justify-between">
+                                <span>{byId.get(id)?.city}</span>
+                                <span className="text-gray-600">{radii[id] !== undefined ? roundTo(toUnit(radii[id], unit)) : '–'} → <span className="font-semibold">{formatDistance(result.radii[id], unit)}</span></span>
+                            </li>
+                        ))}
+                    </ul>
+                    <p className="mt-1 text-xs text-gray-500">Dashed orange circles on the map show the proposal.</p>
+                    <div className="mt-2 flex gap-2">
+                        <button onClick={onAccept} className="flex-grow px-3 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-700">Accept</button>
+                        <button onClick={onReject} className="flex-grow px-3 py-1 rounded-md border border-gray-300 text-gray-700">Reject</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default OptimisePanel;
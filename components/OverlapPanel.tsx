@@ -0,0 +1,59 @@
+import React from 'react';
+import type { DistanceUnit, LocationData } from '../types';
+import type { CoverageStats, OverlapPair } from '../utils/coverage';
+import { formatArea, formatDistance } from '../utils/units';
+
+interface OverlapPanelProps {
+    pairs: OverlapPair[];
+    stats: CoverageStats;
+    unit: DistanceUnit;
+    onSelectLocation: (loc: LocationData) => void;
+    onShrink: () => void;
+}
+
+const OverlapPanel: React.FC<OverlapPanelProps> = ({ pairs, stats, unit, onSelectLocation, onShrink }) => {
+    const duplicatedArea = stats.totalCircleAreaKm2 - stats.unionAreaKm2;
+    const duplicatedShare = stats.totalCircleAreaKm2 > 0 ? (duplicatedArea / stats.totalCircleAreaKm2) * 100 : 0;
+
+    return (
+        <div className="text-sm">
+            <dl className="grid grid-cols-2 gap-x-2 gap-y-1 text-gray-700">
+                <dt>Sum of circle areas</dt>
+                <dd className="text-right font-semibold">{formatArea(stats.totalCircleAreaKm2, unit)}</dd>
+                <dt>Unique covered area</dt>
+                <dd className="text-right font-semibold">{formatArea(stats.unionAreaKm2, unit)}</dd>
+                <dt>Paid for twice</dt>
+                <dd className={`text-right font-semibold ${duplicatedArea > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {formatArea(duplicatedArea, unit)} ({duplicatedShare.toFixed(1)}%)
+                </dd>
+            </dl>
+
+            <p className="mt-3 mb-1 font-semibold text-gray-700">{pairs.length} overlapping pair{pairs.length === 1 ? '' : 's'}</p>
+            {pairs.length > 0 && (
+                <>
+                    <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md">
+                        {pairs.map(pair => (
+                            <li key={`${pair.a.id}-${pair.b.id}`} className="px-2 py-1 flex justify-between gap-2">
+                                <span>
+                                    <button onClick={() => onSelectLocation(pair.a)} className="text-blue-600 hover:underline">{pair.a.city}</button>
+                                    {' & '}
+                                    <button onClick={() => onSelectLocation(pair.b)} className="text-blue-600 hover:underline">{pair.b.city}</button>
+                                    <span className="block text-xs text-gray-500">{formatDistance(pair.distanceKm, unit)} apart</span>
+                                </span>
+                                <span className="text-right whitespace-nowrap text-red-600">{formatArea(pair.sharedAreaKm2, unit)}</span>
+                            </li>
+                        ))}
+                    </ul>
+                    <button
+                        onClick={onShrink}
+                        className="mt-2 w-full px-3 py-1 rounded-md border border-red-300 text-red-700 hover:bg-red-50"
+                    >
+                        Shrink to remove overlaps
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default OverlapPanel;
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import type { DistanceUnit, RadiusPreset } from '../types';
+import { DEFAULT_RADIUS_KM } from '../constants';
+import { formatDistance, fromUnit, radiusRange, roundTo, toUnit } from '../utils/units';
+
+// A group of hotspots a preset can be applied to, e.g. the open hotspot or a region
+export interface PresetTarget {
+    key: string;
+    label: string;
+    ids: number[];
+}
+
+interface RadiusPresetPanelProps {
+    presets: RadiusPreset[];
+    targets: PresetTarget[];
+    unit: DistanceUnit;
+    onApply: (preset: RadiusPreset, ids: number[]) => void;
+    onAdd: (name: string, radiusKm: number) => void;
+    onDelete: (id: string) => void;
+}
+
+const RadiusPresetPanel: React.FC<RadiusPresetPanelProps> = ({ presets, targets, unit, onApply, onAdd, onDelete }) => {
+    const [targetKey, setTargetKey] = useState(targets[0]?.key ?? '');
+    const [name, setName] = useState('');
+    const [radiusKm, setRadiusKm] = useState(DEFAULT_RADIUS_KM);
+    const range = radiusRange(unit);
+    const target = targets.find(t => t.key === targetKey) ?? targets[0];
+
+    // Effect to fall back to the first target when the chosen one goes away (popup closed, region emptied)
+    useEffect(() => {
+        if (!targets.some(t => t.key === targetKey) && targets.length > 0) setTargetKey(targets[0].key);
+    }, [targets, targetKey]);
+
+    const handleAdd = () => {
+        if (!name.trim()) return;
+        onAdd(name.trim(), radiusKm);
+        setName('');
+    };
+
+    return (
+        <div className="text-sm">
+            <label htmlFor="preset-target" className="block text-xs text-gray-600">Apply to</label>
+            <select
+                id="preset-target"
+                value={target?.key ?? ''}
+                onChange={(e) => setTargetKey(e.target.value)}
+                className="w-full px-2 py-1 border border-gray-300 rounded-md"
+            >
+                {targets.map(t => <option key={t.key} value={t.key}>{t.label} ({t.ids.length})</option>)}
+            </select>
+
+            {presets.length === 0 ? (
+                <p className="mt-2 text-gray-500">No presets yet.</p>
+            ) : (
+                <ul className="mt-2 divide-y divide-gray-100 border border-gray-200 rounded-md">
+                    {presets.map(preset => (
+                        <li key={preset.id} className="px-2 py-1 flex items-center gap-2">
+                            <span className="flex-grow min-w-0 truncate">
+                                <span className="font-semibold text-gray-700">{preset.name}</span>{' '}
+                                <span className="text-gray-500">{formatDistance(preset.radiusKm, unit)}</span>
+                            </span>
+                            <button
+                                onClick={() => target && onApply(preset, target.ids)}
+                                disabled={!target || target.ids.length === 0}
+                                className="px-2 py-0.5 text-xs rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300"
+                            >
+                                Apply
+                            </button>
+                            <button onClick={() => onDelete(preset.id)} aria-label={`Delete preset ${preset.name}`} className="text-gray-400 hover:text-red-600">×</button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="mt-2 flex gap-2">
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                    placeholder="Preset name"
+                    className="flex-grow min-w-0 px-2 py-1 border border-gray-300 rounded-md"
+                />
+                <input
+                    type="number"
+                    min={range.min} max={range.max} step={range.step}
+                    value={roundTo(toUnit(radiusKm, unit))}
+                    onChange={(e) => setRadiusKm(fromUnit(Math.min(range.max, Math.max(range.min, Number(e.target.value))), unit))}
+                    aria-label={`Preset radius in ${unit}`}
+                    className="w-16 px-1 py-1 border border-gray-300 rounded-md"
+                />
+                <span className="self-center text-gray-500">{unit}</span>
+                <button
+                    onClick={handleAdd}
+                    disabled={!name.trim()}
+                    className="px-2 py-1 text-xs rounded-md border border-blue-600 text-blue-700 hover:bg-blue-50 disabled:border-gray-300 disabled:text-gray-400"
+                >
+                    Add
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default RadiusPresetPanel;
@@ -0,0 +1,180 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { BasemapSettings, DistanceUnit, LocationData, MapView, Scenario } from '../types';
+import { DEFAULT_RADIUS_KM } from '../constants';
+import { diffScenarios } from '../utils/scenarios';
+import { coverageStats, findOverlaps } from '../utils/coverage';
+import L from '../utils/leaflet';
+import { createTileLayer } from '../utils/basemaps';
+import { formatArea, formatDistance, roundTo, toUnit } from '../utils/units';
+
+interface ScenarioCompareProps {
+    locations: LocationData[];
+    scenarioA: Scenario;
+    scenarioB: Scenario;
+    initialView: MapView;
+    basemap: BasemapSettings;
+    unit: DistanceUnit;
+    onClose: () => void;
+}
+
+const SCENARIO_COLORS = { a: '#2563eb', b: '#ea580c' };
+
+// Draws one scenario's circles onto a fresh map in the given container
+const createScenarioMap = (
+    container: HTMLDivElement, view: MapView, basemap: BasemapSettings, locations: LocationData[], scenario: Scenario, color: string
+) => {
+    const map = L.map(container).setView([view.lat, view.lng], view.zoom);
+    createTileLayer(basemap).addTo(map);
+    locations.forEach(loc => {
+        const radius = scenario.settings.radii[loc.id] ?? DEFAULT_RADIUS_KM;
+        L.circle([loc.lat, loc.lng], { color, weight: 1, fillColor: color, fillOpacity: 0.25, radius: radius * 1000 }).addTo(map);
+        L.circleMarker([loc.lat, loc.lng], { radius: 3, color: '#111827', weight: 1, fillOpacity: 1 }).addTo(map);
+    });
+    return map;
+};
+
+const ScenarioCompare: React.FC<ScenarioCompareProps> = ({ locations, scenarioA, scenarioB, initialView, basemap, unit, onClose }) => {
+    const [mode, setMode] = useState<'split' | 'swipe'>('split');
+    const [swipePosition, setSwipePosition] = useState(50);
+    const [onlyChanged, setOnlyChanged] = useState(true);
+    const containerARef = useRef<HTMLDivElement>(null);
+    const containerBRef = useRef<HTMLDivElement>(null);
+    const mapsRef = useRef<{ a: L.Map; b: L.Map } | null>(null);
+
+    const rows = useMemo(() =>
+        diffScenarios(locations, scenarioA, scenarioB, DEFAULT_RADIUS_KM)
+            .sort((x, y) => Math.abs(y.radiusB - y.radiusA) - Math.abs(x.radiusB - x.radiusA)),
+        [locations, scenarioA, scenarioB]);
+    const visibleRows = onlyChanged ? rows.filter(row => row.radiusA !== row.radiusB) : rows;
+
+    const totals = useMemo(() => {
+        const statsFor = (scenario: Scenario) => {
+            const radii = Object.fromEntries(locations.map(loc => [loc.id, scenario.settings.radii[loc.id] ?? DEFAULT_RADIUS_KM]));
+            return coverageStats(locations, radii, findOverlaps(locations, radii));
+        };
+        return { a: statsFor(scenarioA), b: statsFor(scenarioB) };
+    }, [locations, scenarioA, scenarioB]);
+
+    // Effect to create both maps and keep their views in lockstep
+    useEffect(() => {
+        if (!containerARef.current || !containerBRef.current) return;
+        const mapA = createScenarioMap(containerARef.current, initialView, basemap, locations, scenarioA, SCENARIO_COLORS.a);
+        const mapB = createScenarioMap(containerBRef.current, initialView, basemap, locations, scenarioB, SCENARIO_COLORS.b);
+        mapsRef.current = { a: mapA, b: mapB };
+
+        let syncing = false;
+        const follow = (source: L.Map, target: L.Map) => () => {
+            if (syncing) return;
+            syncing = true;
+            target.setView(source.getCenter(), source.getZoom(), { animate: false });
+            syncing = false;
+        };
+        mapA.on('move', follow(mapA, mapB));
+        mapB.on('move', follow(mapB, mapA));
+
+        return () => {
+            mapA.remove();
+            mapB.remove();
+            mapsRef.current = null;
+        };
+    }, [locations, scenarioA, scenarioB, initialView, basemap]);
+
+    // Effect to let Leaflet re-measure after the layout switches between split and swipe
+    useEffect(() => {
+        mapsRef.current?.a.invalidateSize();
+        mapsRef.current?.b.invalidateSize();
+    }, [mode]);
+
+    return (
+        <div className="fixed inset-0 z-[2000] bg-white flex flex-col">
+            <header className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+                <h2 className="font-bold text-lg text-gray-800">
+                    <span style={{ color: SCENARIO_COLORS.a }}>{scenarioA.name}</span>
+                    <span className="text-gray-400"> vs </span>
+                    <span style={{ color: SCENARIO_COLORS.b }}>{scenarioB.name}</span>
+                </h2>
+                <div className="flex items-center gap-2 text-sm">
+                    {(['split', 'swipe'] as const).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => setMode(option)}
+                            className={`px-2 py-1 rounded-md ${mode === option ? 'bg-blue-600 text-white' : 'border border-gray-300 text-gray-700'}`}
+                        >
+                            {option === 'split' ? 'Split' : 'Swipe'}
+                        </button>
+                    ))}
+                    <button onClick={onClose} className="ml-2 px-3 py-1 rounded-md border border-gray-300 text-gray-700">Close</button>
+                </div>
+            </header>
+
+            <div className={`relative flex-grow min-h-0 ${mode === 'split' ? 'flex' : ''}`}>
+                <div ref={containerARef} className={mode === 'split' ? 'w-1/2 h-full border-r-2 border-white' : 'absolute inset-0'} />
+                <div
+                    ref={containerBRef}
+                    className={mode === 'split' ? 'w-1/2 h-full' : 'absolute inset-0'}
+                    style={mode === 'swipe' ? { clipPath: `inset(0 0 0 ${swipePosition}%)` } : undefined}
+                />
+                {mode === 'swipe' && (
+                    <>
+                        <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow z-[1000] pointer-events-none" style={{ left: `${swipePosition}%` }} />
+                        <input
+                            type="range"
+                            min="0" max="100"
+                            value={swipePosition}
+                            onChange={(e) => setSwipePosition(Number(e.target.value))}
+                            className="absolute bottom-4 left-1/4 w-1/2 z-[1000]"
+                            aria-label="Swipe position"
+                        />
+                    </>
+                )}
+            </div>
+
+            <div className="h-2/5 overflow-y-auto border-t border-gray-200 p-3 text-sm">
+                <div className="flex flex-wrap gap-x-6 gap-y-1 mb-2 text-gray-700">
+                    <span>Sum of circle areas: <b style={{ color: SCENARIO_COLORS.a }}>{formatArea(totals.a.totalCircleAreaKm2, unit)}</b> → <b style={{ color: SCENARIO_COLORS.b }}>{formatArea(totals.b.totalCircleAreaKm2, unit)}</b></span>
+                    <span>Unique covered area: <b style={{ color: SCENARIO_COLORS.a }}>{formatArea(totals.a.unionAreaKm2, unit)}</b> → <b style={{ color: SCENARIO_COLORS.b }}>{formatArea(totals.b.unionAreaKm2, unit)}</b></span>
+                    <span>{rows.filter(row => row.radiusA !== row.radiusB).length} of {rows.length} radii differ</span>
+                    <label className="flex items-center gap-1 ml-auto">
+                        <input type="checkbox" checked={onlyChanged} onChange={(e) => setOnlyChanged(e.target.checked)} />
+                        Only changed
+                    </label>
+                </div>
+                <table className="w-full text-xs">
+                    <thead className="bg-gray-50 sticky top-0">
+                        <tr className="text-left">
+                            <th className="px-1 py-1">Hotspot</th>
+                            <th className="px-1 py-1 text-right">Radius A</th>
+                            <th className="px-1 py-1 text-right">Radius B</th>
+                            <th className="px-1 py-1 text-right">Δ {unit}</th>
+                            <th className="px-1 py-1 text-right">Area A</th>
+                            <th className="px-1 py-1 text-right">Area B</th>
+                            <th className="px-1 py-1 text-right" title="Need of all hotspots inside the circle">Covered need A</th>
+                            <th className="px-1 py-1 text-right">Covered need B</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100 text-gray-700">
+                        {visibleRows.map(row => {
+                            const delta = row.radiusB - row.radiusA;
+                            return (
+                                <tr key={row.location.id}>
+                                    <td className="px-1 py-0.5">{row.location.city}</td>
+                                    <td className="px-1 py-0.5 text-right">{formatDistance(row.radiusA, unit)}</td>
+                                    <td className="px-1 py-0.5 text-right">{formatDistance(row.radiusB, unit)}</td>
+                                    <td className={`px-1 py-0.5 text-right ${delta > 0 ? 'text-green-700' : delta < 0 ? 'text-red-600' : ''}`}>
+                                        {delta > 0 ? '+' : ''}{roundTo(toUnit(delta, unit))}
+                                    </td>
+                                    <td className="px-1 py-0.5 text-right">{formatArea(row.areaA, unit)}</td>
+                                    <td className="px-1 py-0.5 text-right">{formatArea(row.areaB, unit)}</td>
+                                    <td className="px-1 py-0.5 text-right">{row.coveredNeedA}</td>
+                                    <td className="px-1 py-0.5 text-right">{row.coveredNeedB}</td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default ScenarioCompare;
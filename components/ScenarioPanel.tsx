@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import type { Scenario } from '../types';
+
+interface ScenarioPanelProps {
+    scenarios: Scenario[];
+    activeScenarioId: string | null;
+    isModified: boolean;
+    onSaveNew: (name: string) => void;
+    onUpdate: (id: string) => void;
+    onApply: (scenario: Scenario) => void;
+    onDuplicate: (scenario: Scenario) => void;
+    onRename: (id: string, name: string) => void;
+    onDelete: (id: string) => void;
+    onCompare: (a: Scenario, b: Scenario) => void;
+}
+
+const ScenarioPanel: React.FC<ScenarioPanelProps> = ({
+    scenarios, activeScenarioId, isModified, onSaveNew, onUpdate, onApply, onDuplicate, onRename, onDelete, onCompare,
+}) => {
+    const [newName, setNewName] = useState('');
+    const [compareA, setCompareA] = useState('');
+    const [compareB, setCompareB] = useState('');
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newName.trim()) return;
+        onSaveNew(newName.trim());
+        setNewName('');
+    };
+
+    const scenarioA = scenarios.find(scenario => scenario.id === compareA);
+    const scenarioB = scenarios.find(scenario => scenario.id === compareB);
+
+    return (
+        <div className="text-sm">
+            <form onSubmit={handleSave} className="flex gap-2">
+                <input
+                    placeholder="Scenario name, e.g. 10 km everywhere"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    className="flex-grow px-2 py-1 border border-gray-300 rounded-md"
+                />
+                <button type="submit" disabled={!newName.trim()} className="px-3 py-1 rounded-md bg-blue-600 text-white disabled:bg-gray-300">
+                    Save
+                </button>
+            </form>
+
+            {scenarios.length > 0 && (
+                <ul className="mt-2 divide-y divide-gray-100 border border-gray-200 rounded-md">
+                    {scenarios.map(scenario => {
+                        const isActive = scenario.id === activeScenarioId;
+                        return (
+                            <li key={scenario.id} className={`px-2 py-1 ${isActive ? 'bg-blue-50' : ''}`}>
+                                <div className="flex items-center justify-between gap-2">
+                                    <button onClick={() => onApply(scenario)} className="text-left font-semibold text-gray-700 hover:text-blue-600">
+                                        {scenario.name}
+                                        {isActive && <span className="ml-1 text-xs font-normal text-blue-600">{isModified ? '(active, modified)' : '(active)'}</span>}
+                                    </button>
+                                </div>
+                                <div className="flex gap-3 text-xs">
+                                    {isActive && isModified && (
+                                        <button onClick={() => onUpdate(scenario.id)} className="text-blue-600 hover:underline">Update</button>
+                                    )}
+                                    <button onClick={() => onDuplicate(scenario)} className="text-blue-600 hover:underline">Duplicate</button>
+                                    <button
+                                        onClick={() => {
+                                            const name = window.prompt('Rename scenario', scenario.name);
+                                            if (name && name.trim()) onRename(scenario.id, name.trim());
+                                        }}
+                                        className="text-blue-600 hover:underline"
+                                    >
+                                        Rename
+                                    </button>
+                                    <button
+                                        onClick={() => {
+                                            if (window.confirm(`Delete scenario "${scenario.name}"?`)) onDelete(scenario.id);
+                                        }}
+                                        className="text-red-600 hover:underline"
+                                    >
+                                        Delete
+                                    </button>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+
+            {scenarios.length >= 2 && (
+                <div className="mt-2 flex items-center gap-1">
+                    <select value={compareA} onChange={(e) => setCompareA(e.target.value)} className="flex-1 min-w-0 px-1 py-1 border border-gray-300 rounded-md text-xs">
+                        <option value="">Scenario A…</option>
+                        {scenarios.map(scenario => <option key={scenario.id} value={scenario.id}>{scenario.name}</option>)}
+                    </select>
+                    <span className="text-xs text-gray-500">vs</span>
+                    <select value={compareB} onChange={(e) => setCompareB(e.target.value)} className="flex-1 min-w-0 px-1 py-1 border border-gray-300 rounded-md text-xs">
+                        <option value="">Scenario B…</option>
+                        {scenarios.map(scenario => <option key={scenario.id} value={scenario.id}>{scenario.name}</option>)}
+                    </select>
+                    <button
+                        onClick={() => scenarioA && scenarioB && onCompare(scenarioA, scenarioB)}
+                        disabled={!scenarioA || !scenarioB || scenarioA === scenarioB}
+                        className="px-2 py-1 rounded-md border border-gray-300 text-xs disabled:text-gray-300"
+                    >
+                        Compare
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ScenarioPanel;
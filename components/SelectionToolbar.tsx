@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import type { DistanceUnit, LocationData, SelectMode } from '../types';
+import { DEFAULT_RADIUS_KM } from '../constants';
+import { normaliseTag, tagCounts } from '../utils/tags';
+import { clampRadiusKm, fromUnit, radiusRange, roundTo, toUnit } from '../utils/units';
+
+interface SelectionToolbarProps {
+    selection: LocationData[];
+    // Every tag in the dataset, offered as suggestions
+    knownTags: string[];
+    mode: SelectMode | null;
+    unit: DistanceUnit;
+    onModeChange: (mode: SelectMode | null) => void;
+    onSetRadius: (radiusKm: number) => void;
+    onScaleRadii: (percent: number) => void;
+    onSetExcluded: (excluded: boolean) => void;
+    onAddTag: (tag: string) => void;
+    onRemoveTag: (tag: string) => void;
+    onZoom: () => void;
+    onClear: () => void;
+}
+
+const MODE_OPTIONS: { mode: SelectMode; label: string }[] = [
+    { mode: 'box', label: 'Box' },
+    { mode: 'lasso', label: 'Lasso' },
+];
+
+const SelectionToolbar: React.FC<SelectionToolbarProps> = ({
+    selection, knownTags, mode, unit, onModeChange, onSetRadius, onScaleRadii, onSetExcluded, onAddTag, onRemoveTag, onZoom, onClear,
+}) => {
+    const [radiusKm, setRadiusKm] = useState(DEFAULT_RADIUS_KM);
+    const [percent, setPercent] = useState(110);
+    const [tagText, setTagText] = useState('');
+    const range = radiusRange(unit);
+    const excludedCount = selection.filter(loc => loc.excluded).length;
+    const selectionTags = tagCounts(selection);
+
+    const handleAddTag = () => {
+        const tag = normaliseTag(tagText);
+        if (!tag) return;
+        onAddTag(tag);
+        setTagText('');
+    };
+
+    return (
+        <div className="bg-white p-2 rounded-lg shadow-lg w-64 text-xs text-gray-700 space-y-2">
+            <div className="flex items-center gap-1">
+                <span className="font-semibold flex-grow">
+                    {selection.length === 0 ? 'Select hotspots' : `${selection.length} selected`}
+                </span>
+                {MODE_OPTIONS.map(option => (
+                    <button
+                        key={option.mode}
+                        onClick={() => onModeChange(mode === option.mode ? null : option.mode)}
+                        className={`px-2 py-0.5 rounded-md text-xs ${mode === option.mode ? 'bg-blue-600 text-white' : 'border border-gray-300 text-gray-700'}`}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+            {mode && (
+                <p className="text-gray-500">
+                    {mode === 'box' ? 'Drag a box' : 'Click around the hotspots, then click the first point'} to add them to the selection. Esc cancels.
+                </p>
+            )}
+            {selection.length === 0 && !mode && (
+                <p className="text-gray-500">Draw a box or lasso, shift-click markers, or tick hotspots in the list.</p>
+            )}
+
+            {selection.length > 0 && (
+                <>
+                    <div className="flex items-center gap-1">
+                        <label htmlFor="selection-radius" className="w-14">Radius</label>
+                        <input
+                            type="number"
+                            id="selection-radius"
+                            min={range.min} max={range.max} step={range.step}
+                            value={roundTo(toUnit(radiusKm, unit))}
+                            onChange={(e) => setRadiusKm(clampRadiusKm(fromUnit(Number(e.target.value), unit)))}
+                            className="w-14 px-1 py-0.5 border border-gray-300 rounded-md"
+                        />
+                        <span className="flex-grow">{unit}</span>
+                        <button onClick={() => onSetRadius(radiusKm)} className="px-2 py-1 text-xs rounded-md border border-gray-300 text-gray-700">Set</button>
+                    </div>
+                    <div className="flex items-center gap-1">
+                        <label htmlFor="selection-scale" className="w-14">Scale to</label>
+                        <input
+                            type="number"
+                            id="selection-scale"
+                            min="10" max="500" step="5"
+                            value={percent}
+                            onChange={(e) => setPercent(Math.min(500, Math.max(10, Number(e.target.value))))}
+                            className="w-14 px-1 py-0.5 border border-gray-300 rounded-md"
+                        />
+                        <span className="flex-grow">%</span>
+                        <button onClick={() => onScaleRadii(percent)} className="px-2 py-1 text-xs rounded-md border border-gray-300 text-gray-700">Scale</button>
+                    </div>
+                    <div className="flex items-center gap-1">
+                        <span className="flex-grow">
+                            Plan: {selection.length - excludedCount} in{excludedCount > 0 && `, ${excludedCount} excluded`}
+                        </span>
+                        <button
+                            onClick={() => onSetExcluded(true)}
+                            disabled={excludedCount === selection.length}
+                            className="px-2 py-1 text-xs rounded-md border border-gray-300 text-gray-700 disabled:text-gray-400"
+                        >
+                            Exclude
+                        </button>
+                        <button
+                            onClick={() => onSetExcluded(false)}
+                            disabled={excludedCount === 0}
+                            className="px-2 py-1 text-xs rounded-md border border-gray-300 text-gray-700 disabled:text-gray-400"
+                        >
+                            Include
+                        </button>
+                    </div>
+                    <div className="flex items-center gap-1">
+                        <input
+                            type="text"
+                            list="selection-tag-options"
+                            value={tagText}
+                            onChange={(e) => setTagText(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleAddTag()}
+                            placeholder="Tag, e.g. phase 1"
+                            aria-label="Tag to add to the selection"
+                            className="flex-grow min-w-0 px-2 py-0.5 border border-gray-300 rounded-md"
+                        />
+                        <datalist id="selection-tag-options">
+                            {knownTags.map(tag => <option key={tag} value={tag} />)}
+                        </datalist>
+                        <button
+                            onClick={handleAddTag}
+                            disabled={!normaliseTag(tagText)}
+                            className="px-2 py-1 text-xs rounded-md border border-gray-300 text-gray-700 disabled:text-gray-400"
+                        >
+                            Tag
+                        </button>
+                    </div>
+                    {selectionTags.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                            {selectionTags.map(({ tag, count }) => (
+                                <span key={tag} className="text-blue-700 bg-blue-50 border border-blue-100 px-1 rounded">
+                                    {tag} ({count})
+                                    <button onClick={() => onRemoveTag(tag)} aria-label={`Remove tag ${tag} from the selection`} className="ml-1 text-gray-400 hover:text-red-600">×</button>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    <div className="flex gap-2">
+                        <button onClick={onZoom} className="px-2 py-1 text-xs rounded-md border border-gray-300 text-gray-700">Zoom to selection</button>
+                        <button onClick={onClear} className="px-2 py-1 text-xs rounded-md border border-gray-300 text-gray-700">Clear</button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default SelectionToolbar;
@@ -0,0 +1,35 @@
+import React, { useState } from 'react';
+import type { PersistedMapState } from '../types';
+import { encodeShareHash } from '../utils/mapState';
+
+interface ShareLinkButtonProps {
+    state: PersistedMapState;
+}
+
+const ShareLinkButton: React.FC<ShareLinkButtonProps> = ({ state }) => {
+    const [status, setStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+    const handleCopy = async () => {
+        const url = `${window.location.origin}${window.location.pathname}${window.location.search}${encodeShareHash(state)}`;
+        try {
+            await navigator.clipboard.writeText(url);
+            setStatus('copied');
+        } catch {
+            // Clipboard access can be denied; the address bar already holds the same link
+            setStatus('failed');
+        }
+        setTimeout(() => setStatus('idle'), 2000);
+    };
+
+    return (
+        <button
+            onClick={handleCopy}
+            title="Copy a link that restores this view, radii and selection"
+            className="px-3 py-1 text-sm rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50"
+        >
+            {status === 'copied' ? 'Link copied!' : status === 'failed' ? 'Copy from address bar' : 'Share link'}
+        </button>
+    );
+};
+
+export default ShareLinkButton;
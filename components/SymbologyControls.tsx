@@ -0,0 +1,59 @@
+import React from 'react';
+import type { ClassificationMethod, SymbologySettings } from '../types';
+import { CLASSIFICATION_METHODS, MAX_CLASSES, MIN_CLASSES } from '../utils/classify';
+
+interface SymbologyControlsProps {
+    settings: SymbologySettings;
+    onChange: (settings: SymbologySettings) => void;
+}
+
+const ENCODINGS: { value: SymbologySettings['encoding']; label: string }[] = [
+    { value: 'both', label: 'Size & colour' },
+    { value: 'colour', label: 'Colour' },
+    { value: 'size', label: 'Size' },
+    { value: 'none', label: 'Off' },
+];
+
+const SymbologyControls: React.FC<SymbologyControlsProps> = ({ settings, onChange }) => (
+    <div className="grid grid-cols-2 gap-2 text-sm">
+        <div className="col-span-2">
+            <label htmlFor="symbology-encoding" className="block text-xs text-gray-600">Style markers by courier need</label>
+            <select
+                id="symbology-encoding"
+                value={settings.encoding}
+                onChange={(e) => onChange({ ...settings, encoding: e.target.value as SymbologySettings['encoding'] })}
+                className="w-full px-2 py-1 border border-gray-300 rounded-md"
+            >
+                {ENCODINGS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+            </select>
+        </div>
+        <div>
+            <label htmlFor="symbology-method" className="block text-xs text-gray-600">Classification</label>
+            <select
+                id="symbology-method"
+                value={settings.method}
+                disabled={settings.encoding === 'none'}
+                onChange={(e) => onChange({ ...settings, method: e.target.value as ClassificationMethod })}
+                className="w-full px-2 py-1 border border-gray-300 rounded-md"
+            >
+                {CLASSIFICATION_METHODS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+            </select>
+        </div>
+        <div>
+            <label htmlFor="symbology-classes" className="block text-xs text-gray-600">Classes</label>
+            <select
+                id="symbology-classes"
+                value={settings.classCount}
+                disabled={settings.encoding === 'none'}
+                onChange={(e) => onChange({ ...settings, classCount: Number(e.target.value) })}
+                className="w-full px-2 py-1 border border-gray-300 rounded-md"
+            >
+                {Array.from({ length: MAX_CLASSES - MIN_CLASSES + 1 }, (_, i) => MIN_CLASSES + i).map(count =>
+                    <option key={count} value={count}>{count}</option>
+                )}
+            </select>
+        </div>
+    </div>
+);
+
+export default SymbologyControls;
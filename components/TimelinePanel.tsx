@@ -0,0 +1,116 @@
+import React, { useRef, useState } from 'react';
+import type { ImportIssue, LocationData, NeedTrend } from '../types';
+import { mergeHistory, parseHistoryCsv } from '../utils/history';
+import { IssueList } from './DataImporter';
+import { Sparkline } from './TrendIndicator';
+
+interface TimelinePanelProps {
+    locations: LocationData[];
+    dates: string[];
+    date: string | null;
+    isPlaying: boolean;
+    totalNeed: number;
+    previousTotalNeed: number | null;
+    rising: { location: LocationData; trend: NeedTrend }[];
+    onDateChange: (index: number) => void;
+    onPlayToggle: () => void;
+    onApplyHistory: (locations: LocationData[]) => void;
+    onSelectLocation: (location: LocationData) => void;
+}
+
+const formatWeek = (date: string) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+const TimelinePanel: React.FC<TimelinePanelProps> = ({
+    locations, dates, date, isPlaying, totalNeed, previousTotalNeed, rising,
+    onDateChange, onPlayToggle, onApplyHistory, onSelectLocation,
+}) => {
+    const [issues, setIssues] = useState<ImportIssue[]>([]);
+    const [message, setMessage] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const readFile = async (file: File) => {
+        setIssues([]);
+        try {
+            const { records, issues: parseIssues } = parseHistoryCsv(await file.text());
+            const merged = mergeHistory(locations, records);
+            setIssues([...parseIssues, ...merged.issues].sort((a, b) => a.row - b.row));
+            setMessage(`${file.name}: ${merged.matched} weekly value(s) imported`);
+            if (merged.matched > 0) onApplyHistory(merged.locations);
+        } catch (err) {
+            setMessage(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const index = date === null ? dates.length - 1 : dates.indexOf(date);
+    const change = previousTotalNeed === null ? null : totalNeed - previousTotalNeed;
+
+    return (
+        <div className="text-sm">
+            {dates.length > 0 && date !== null && (
+                <>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={onPlayToggle}
+                            title={isPlaying ? 'Pause' : 'Play'}
+                            className="w-8 h-8 rounded-full bg-blue-600 text-white flex-shrink-0"
+                        >
+                            {isPlaying ? '❚❚' : '▶'}
+                        </button>
+                        <input
+                            type="range"
+                            min="0" max={dates.length - 1}
+                            value={index}
+                            onChange={(e) => onDateChange(Number(e.target.value))}
+                            aria-label="Week"
+                            className="flex-grow h-2 bg-blue-200 rounded-lg appearance-none cursor-pointer"
+                        />
+                    </div>
+                    <p className="mt-1 text-gray-700">
+                        Week of <span className="font-semibold">{formatWeek(date)}</span>: total need{' '}
+                        <span className="font-semibold">{totalNeed.toLocaleString()}</span>
+                        {change !== null && change !== 0 && (
+                            <span className={change > 0 ? 'text-red-600' : 'text-blue-600'}> ({change > 0 ? '+' : ''}{change.toLocaleString()})</span>
+                        )}
+                    </p>
+                </>
+            )}
+
+            {rising.length > 0 && (
+                <div className="mt-2">
+                    <p className="font-semibold text-gray-700">Rising fastest</p>
+                    <ul className="mt-1 divide-y divide-gray-100 border border-gray-200 rounded-md text-xs">
+                        {rising.map(({ location, trend }) => (
+                            <li key={location.id} onClick={() => onSelectLocation(location)} className="px-2 py-1 flex items-center justify-between gap-2 cursor-pointer hover:bg-blue-50">
+                                <span className="font-semibold text-gray-700">{location.city}</span>
+                                <span className="flex items-center gap-2">
+                                    <Sparkline points={location.history ?? []} highlightDate={date} width={60} height={16} />
+                                    <span className="text-red-600">+{trend.slope.toFixed(1)}/wk</span>
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <button onClick={() => fileInputRef.current?.click()} className="mt-2 text-xs text-blue-600 hover:underline">
+                Import weekly need (CSV)…
+            </button>
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv"
+                className="hidden"
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) readFile(file);
+                    e.target.value = '';
+                }}
+            />
+            {message && <p className="mt-1 text-xs text-gray-700">{message}</p>}
+            {issues.length > 0 && <div className="mt-1"><IssueList issues={issues} /></div>}
+        </div>
+    );
+};
+
+export default TimelinePanel;
@@ -0,0 +1,47 @@
+import React from 'react';
+import type { NeedPoint, NeedTrend } from '../types';
+
+interface TrendIndicatorProps {
+    trend: NeedTrend;
+}
+
+interface SparklineProps {
+    points: NeedPoint[];
+    highlightDate?: string | null;
+    width?: number;
+    height?: number;
+}
+
+// Rising need is "hotter", so it is drawn in red and falling need in blue
+const TrendIndicator: React.FC<TrendIndicatorProps> = ({ trend }) => {
+    if (trend.change === null) return null;
+    if (trend.change === 0) return <span className="text-gray-400" title="No change on the previous week">▬ 0</span>;
+    const percent = trend.previous ? ` (${trend.change > 0 ? '+' : ''}${Math.round((trend.change / trend.previous) * 100)}%)` : '';
+    return (
+        <span className={trend.change > 0 ? 'text-red-600' : 'text-blue-600'} title="Change on the previous week">
+            {trend.change > 0 ? '▲' : '▼'} {trend.change > 0 ? '+' : ''}{trend.change}{percent}
+        </span>
+    );
+};
+
+export const Sparkline: React.FC<SparklineProps> = ({ points, highlightDate, width = 80, height = 20 }) => {
+    if (points.length < 2) return null;
+    const max = Math.max(...points.map(point => point.need), 1);
+    const x = (i: number) => (i / (points.length - 1)) * (width - 2) + 1;
+    const y = (need: number) => height - 1 - (need / max) * (height - 2);
+    const highlight = highlightDate ? points.findIndex(point => point.date === highlightDate) : points.length - 1;
+
+    return (
+        <svg width={width} height={height} className="inline-block align-middle" aria-hidden="true">
+            <polyline
+                points={points.map((point, i) => `${x(i)},${y(point.need)}`).join(' ')}
+                fill="none"
+                stroke="#6b7280"
+                strokeWidth="1.5"
+            />
+            {highlight >= 0 && <circle cx={x(highlight)} cy={y(points[highlight].need)} r="2.5" fill="#dc2626" />}
+        </svg>
+    );
+};
+
+export default TrendIndicator;
@@ -0,0 +1,87 @@
+import React from 'react';
+import type { DistanceUnit, LocationData, Zone } from '../types';
+import { formatArea } from '../utils/units';
+import { zoneStats } from '../utils/zones';
+
+interface ZonePanelProps {
+    zones: Zone[];
+    locations: LocationData[];
+    unit: DistanceUnit;
+    onChange: (zone: Zone) => void;
+    onDelete: (id: string) => void;
+    onZoom: (zone: Zone) => void;
+}
+
+const ZonePanel: React.FC<ZonePanelProps> = ({ zones, locations, unit, onChange, onDelete, onZoom }) => {
+    const sortedLocations = [...locations].sort((a, b) => a.city.localeCompare(b.city));
+
+    return (
+        <div className="text-sm">
+            <p className="text-xs text-gray-500">
+                Draw polygons or rectangles with the tools at the top left of the map; reshape or remove them with the edit tools below those.
+            </p>
+            {zones.length === 0 ? (
+                <p className="mt-2 text-gray-500">No zones drawn yet.</p>
+            ) : (
+                <ul className="mt-2 space-y-2">
+                    {zones.map(zone => {
+                        const stats = zoneStats(zone, locations);
+                        return (
+                            <li key={zone.id} className="p-2 border border-gray-200 rounded-md">
+                                <div className="flex items-center gap-2">
+                                    <input
+                                        type="text"
+                                        value={zone.name}
+                                        onChange={(e) => onChange({ ...zone, name: e.target.value })}
+                                        aria-label="Zone name"
+                                        className="flex-grow min-w-0 px-2 py-1 border border-gray-300 rounded-md"
+                                    />
+                                    <span className="text-xs text-gray-500">{zone.kind}</span>
+                                </div>
+                                <p className="mt-1 text-xs text-gray-600">
+                                    {formatArea(stats.areaKm2, unit)} · {stats.locations.length} hotspot{stats.locations.length === 1 ? '' : 's'} · need{' '}
+                                    <span className="font-semibold">{stats.courierNeed}</span>
+                                </p>
+                                {stats.locations.length > 0 && (
+                                    <p className="text-xs text-gray-500 truncate" title={stats.locations.map(loc => loc.city).join(', ')}>
+                                        {stats.locations.map(loc => loc.city).join(', ')}
+                                    </p>
+                                )}
+                                <select
+                                    value={zone.locationId ?? ''}
+                                    onChange={(e) => {
+                                        const locationId = e.target.value === '' ? null : Number(e.target.value);
+                                        onChange({ ...zone, locationId, replacesCircle: locationId !== null && zone.replacesCircle });
+                                    }}
+                                    aria-label="Linked hotspot"
+                                    className="mt-2 w-full px-2 py-1 border border-gray-300 rounded-md bg-white"
+                                >
+                                    <option value="">Free-standing</option>
+                                    {sortedLocations.map(loc => (
+                                        <option key={loc.id} value={loc.id}>{loc.city}</option>
+                                    ))}
+                                </select>
+                                <label className={`mt-1 flex items-center gap-2 text-xs ${zone.locationId === null ? 'text-gray-400' : 'text-gray-700'}`}>
+                                    <input
+                                        type="checkbox"
+                                        checked={zone.replacesCircle}
+                                        disabled={zone.locationId === null}
+                                        onChange={(e) => onChange({ ...zone, replacesCircle: e.target.checked })}
+                                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                    />
+                                    Use instead of the hotspot's circle
+                                </label>
+                                <div className="mt-2 flex gap-3 text-xs">
+                                    <button onClick={() => onZoom(zone)} className="text-blue-600 hover:underline">Zoom to</button>
+                                    <button onClick={() => onDelete(zone.id)} className="text-red-600 hover:underline">Delete</button>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default ZonePanel;
@@ -1,5 +1,21 @@
 
-import type { LocationData } from './types';
+import type { LocationData, MapView } from './types';
+
+// Rough bounding box around the UK including Northern Ireland, used to reject misplaced coordinates
+export const UK_BOUNDS = { south: 49.8, north: 61.0, west: -8.7, east: 2.0 };
+
+export const DEFAULT_RADIUS_KM = 10;
+export const MIN_RADIUS_KM = 1;
+export const MAX_RADIUS_KM = 50;
+
+// How many hotspots a postcode search lists
+export const NEAREST_HOTSPOT_COUNT = 5;
+
+// How many hotspots are flagged as rising fastest, and over how many recent weeks the rise is measured
+export const RISING_HOTSPOT_COUNT = 5;
+export const RISING_WINDOW_WEEKS = 4;
+
+export const DEFAULT_MAP_VIEW: MapView = { lat: 54.5, lng: -2.5, zoom: 6 };
 
 export const LOCATIONS: LocationData[] = [
   { id: 1, city: 'Barnsley', region: 'England - North East', lat: 53.5539, lng: -1.4795, courierNeed: 138 },
@@ -0,0 +1,164 @@
+import type { OutcodeCentroid } from '../types';
+
+// Approximate centroids of the postcode districts (outcodes) around the current hotspots, as [outcode, lat, lng].
+// This is a starter table, not the full national list. `npm run outcodes -- <ONSPD CSV>` replaces it with every
+// live UK district, averaged from the ONS Postcode Directory (see scripts/build-outcodes.mjs).
+const OUTCODE_ROWS: [string, number, number][] = [
+  ['S63', 53.512, -1.318], // Cortonwood
+  ['S70', 53.545, -1.490], // Barnsley
+  ['S71', 53.573, -1.451], // Barnsley
+  ['S72', 53.586, -1.372], // Barnsley
+  ['S73', 53.517, -1.371], // Barnsley
+  ['S74', 53.500, -1.441], // Barnsley
+  ['S75', 53.562, -1.548], // Barnsley
+  ['SS13', 51.582, 0.502], // Basildon
+  ['SS14', 51.576, 0.473], // Basildon
+  ['SS15', 51.575, 0.432], // Basildon
+  ['SS16', 51.558, 0.458], // Basildon
+  ['EH19', 55.874, -3.104], // Dalkeith
+  ['EH22', 55.884, -3.060], // Dalkeith
+  ['KY11', 56.058, -3.420], // Dunfermline
+  ['KY12', 56.076, -3.497], // Dunfermline
+  ['PO12', 50.791, -1.133], // Gosport
+  ['PO13', 50.812, -1.170], // Gosport
+  ['GU15', 51.336, -0.731], // Camberley
+  ['GU16', 51.311, -0.718], // Camberley
+  ['GU17', 51.330, -0.790], // Camberley
+  ['PL1', 50.370, -4.150], // Plymouth
+  ['PL2', 50.388, -4.160], // Plymouth
+  ['PL3', 50.388, -4.130], // Plymouth
+  ['PL4', 50.372, -4.124], // Plymouth
+  ['PL5', 50.410, -4.170], // Plymouth
+  ['PL6', 50.420, -4.118], // Plymouth
+  ['PL7', 50.385, -4.050], // Plymouth
+  ['PL9', 50.355, -4.090], // Plymouth
+  ['PL12', 50.410, -4.230], // Saltash
+  ['S40', 53.232, -1.440], // Chesterfield
+  ['S41', 53.250, -1.421], // Chesterfield
+  ['S42', 53.209, -1.401], // Chesterfield
+  ['S43', 53.260, -1.330], // Chesterfield
+  ['S44', 53.210, -1.300], // Chesterfield
+  ['S45', 53.170, -1.400], // Chesterfield
+  ['RH10', 51.112, -0.160], // Crawley
+  ['RH11', 51.108, -0.203], // Crawley
+  ['LL11', 53.060, -3.010], // Wrexham
+  ['LL12', 53.070, -2.970], // Wrexham
+  ['LL13', 53.040, -2.970], // Wrexham
+  ['LL14', 52.990, -3.050], // Wrexham
+  ['NG17', 53.125, -1.262], // Sutton-in-Ashfield
+  ['NG18', 53.138, -1.180], // Mansfield
+  ['NG19', 53.160, -1.205], // Mansfield
+  ['NG21', 53.125, -1.110], // Mansfield
+  ['TN34', 50.862, 0.580], // Hastings
+  ['TN35', 50.870, 0.612], // Hastings
+  ['TN37', 50.866, 0.553], // Hastings
+  ['TN38', 50.858, 0.540], // Hastings
+  ['TN39', 50.843, 0.450], // Bexhill
+  ['TN40', 50.845, 0.490], // Bexhill
+  ['TQ1', 50.468, -3.520], // Torquay
+  ['TQ2', 50.476, -3.548], // Torquay
+  ['TQ3', 50.440, -3.580], // Paignton
+  ['TQ4', 50.420, -3.570], // Paignton
+  ['TQ12', 50.530, -3.610], // Newton Abbot
+  ['EH54', 55.888, -3.522], // Livingston
+  ['EH48', 55.900, -3.650], // Bathgate
+  ['IV1', 57.482, -4.220], // Inverness
+  ['IV2', 57.470, -4.180], // Inverness
+  ['IV3', 57.470, -4.260], // Inverness
+  ['FY4', 53.790, -3.030], // Blackpool
+  ['FY8', 53.745, -2.980], // Lytham St Annes
+  ['NP44', 51.650, -3.030], // Cwmbran
+  ['RG21', 51.265, -1.090], // Basingstoke
+  ['RG22', 51.250, -1.120], // Basingstoke
+  ['RG24', 51.280, -1.070], // Basingstoke
+  ['CH65', 53.280, -2.890], // Ellesmere Port
+  ['CH66', 53.280, -2.930], // Ellesmere Port
+  ['CH5', 53.205, -3.030], // Deeside
+  ['PA15', 55.945, -4.750], // Greenock
+  ['PA16', 55.940, -4.790], // Greenock
+  ['NN15', 52.390, -0.710], // Kettering
+  ['NN16', 52.402, -0.730], // Kettering
+  ['DT3', 50.640, -2.470], // Weymouth
+  ['DT4', 50.600, -2.470], // Weymouth
+  ['CF83', 51.580, -3.220], // Caerphilly
+  ['DE7', 52.970, -1.310], // Ilkeston
+  ['LA3', 54.050, -2.890], // Morecambe
+  ['LA4', 54.070, -2.860], // Morecambe
+  ['CF40', 51.620, -3.460], // Tonypandy
+  ['LL18', 53.320, -3.490], // Rhyl
+  ['DL16', 54.700, -1.600], // Spennymoor
+  ['ME10', 51.340, 0.730], // Sittingbourne
+  ['DH1', 54.780, -1.570], // Durham
+  ['NE63', 55.180, -1.570], // Ashington
+  ['LL30', 53.320, -3.820], // Llandudno
+  ['WF8', 53.690, -1.310], // Pontefract
+  ['EX31', 51.080, -4.060], // Barnstaple
+  ['EX32', 51.070, -4.040], // Barnstaple
+  ['NE24', 55.125, -1.510], // Blyth
+  ['CF47', 51.750, -3.380], // Merthyr Tydfil
+  ['CF48', 51.730, -3.360], // Merthyr Tydfil
+  ['BT19', 54.650, -5.680], // Bangor
+  ['BT20', 54.660, -5.670], // Bangor
+  ['G82', 55.945, -4.570], // Dumbarton
+  ['FK10', 56.120, -3.790], // Alloa
+  ['TS22', 54.620, -1.280], // Billingham
+  ['TS23', 54.610, -1.290], // Billingham
+  ['BN17', 50.810, -0.540], // Littlehampton
+  ['SR8', 54.760, -1.330], // Peterlee
+  ['SR7', 54.820, -1.390], // Seaham
+  ['SA14', 51.700, -4.130], // Llanelli
+  ['SA15', 51.680, -4.160], // Llanelli
+  ['BT27', 54.500, -6.020], // Lisburn
+  ['BT28', 54.510, -6.070], // Lisburn
+  ['WA12', 53.455, -2.630], // Newton-le-Willows
+  ['SA10', 51.670, -3.780], // Neath
+  ['SA11', 51.660, -3.800], // Neath
+  ['TA6', 51.130, -3.000], // Bridgwater
+  ['DH8', 54.850, -1.830], // Consett
+  ['BA14', 51.315, -2.200], // Trowbridge
+  ['DH9', 54.870, -1.700], // Stanley
+  ['TS10', 54.610, -1.070], // Redcar
+  ['KY8', 56.200, -3.000], // Leven
+  ['DG1', 55.070, -3.600], // Dumfries
+  ['DG2', 55.070, -3.640], // Dumfries
+  ['CF44', 51.710, -3.450], // Aberdare
+  ['PE21', 52.975, -0.020], // Boston
+  ['BT38', 54.720, -5.810], // Carrickfergus
+  ['NP23', 51.780, -3.210], // Ebbw Vale
+  ['PO21', 50.780, -0.690], // Bognor Regis
+  ['PO22', 50.790, -0.650], // Bognor Regis
+  ['DL5', 54.620, -1.580], // Newton Aycliffe
+  ['SN14', 51.460, -2.150], // Chippenham
+  ['SN15', 51.460, -2.110], // Chippenham
+  ['WS15', 52.760, -1.930], // Rugeley
+  ['BT23', 54.590, -5.690], // Newtownards
+  ['IV30', 57.650, -3.320], // Elgin
+  ['BT18', 54.640, -5.840], // Holywood
+  ['BT34', 54.170, -6.320], // Newry
+  ['BT35', 54.170, -6.360], // Newry
+  ['IP24', 52.410, 0.750], // Thetford
+  ['PO19', 50.835, -0.780], // Chichester
+  ['LA9', 54.330, -2.740], // Kendal
+  ['LL57', 53.220, -4.130], // Bangor
+  ['KT15', 51.370, -0.490], // Addlestone
+  ['LN11', 53.370, -0.010], // Louth
+  ['TR7', 50.415, -5.070], // Newquay
+  ['SY23', 52.410, -4.070], // Aberystwyth
+  ['LE13', 52.765, -0.890], // Melton Mowbray
+  ['BD23', 53.960, -2.020], // Skipton
+  ['SP4', 51.170, -1.780], // Amesbury
+  ['NN9', 52.340, -0.540], // Raunds
+  ['CA14', 54.640, -3.550], // Workington
+  ['EX39', 51.020, -4.210], // Bideford
+  ['CO10', 52.040, 0.730], // Sudbury
+  ['TA8', 51.240, -2.990], // Burnham-on-Sea
+  ['PE13', 52.665, 0.160], // Wisbech
+  ['PE14', 52.640, 0.200], // Wisbech
+  ['CW11', 53.145, -2.360], // Sandbach
+  ['CT14', 51.220, 1.390], // Deal
+  ['CM8', 51.800, 0.640], // Witham
+  ['SK17', 53.250, -1.910], // Buxton
+  ['BB7', 53.870, -2.390], // Clitheroe
+];
+
+export const OUTCODE_CENTROIDS: OutcodeCentroid[] = OUTCODE_ROWS.map(([outcode, lat, lng]) => ({ outcode, lat, lng }));
@@ -0,0 +1,52 @@
+// Simplified coastline of Great Britain and Northern Ireland as [lat, lng] rings, one per land mass.
+// It is hand-simplified to a few kilometres: estuaries and sea lochs are cut across, and only the
+// Isle of Wight and Skye are kept among the islands. Good enough for catchment and gap shading, not for
+// area statistics near the coast. Belfast Lough is drawn as land so the hotspots on its shores fall inside.
+export const UK_OUTLINE: [number, number][][] = [
+  // Great Britain, clockwise from Dover
+  [
+    [51.13, 1.33], [50.91, 0.98], [50.85, 0.58], [50.73, 0.25], [50.81, -0.14], [50.72, -0.79],
+    [50.78, -1.10], [50.80, -1.30], [50.73, -1.55], [50.70, -1.75], [50.58, -2.06], [50.51, -2.45],
+    [50.71, -2.94], [50.60, -3.40], [50.21, -3.64], [50.32, -4.15], [50.21, -4.80], [49.95, -5.20],
+    [50.06, -5.72], [50.21, -5.49], [50.42, -5.09], [50.55, -5.04], [51.02, -4.54], [51.19, -4.22],
+    [51.25, -3.78], [51.21, -3.47], [51.35, -2.99], [51.50, -2.71], [51.70, -2.48], [51.60, -2.68],
+    [51.54, -2.98], [51.45, -3.17], [51.38, -3.27], [51.40, -3.56], [51.48, -3.70], [51.59, -3.90],
+    [51.56, -4.34], [51.67, -4.25], [51.66, -4.70], [51.59, -4.93], [51.68, -5.18], [51.90, -5.32],
+    [52.01, -4.99], [52.11, -4.70], [52.21, -4.37], [52.41, -4.10], [52.54, -4.06], [52.72, -4.07],
+    [52.86, -4.12], [52.88, -4.41], [52.79, -4.77], [52.94, -4.54], [53.14, -4.29], [53.20, -4.56],
+    [53.31, -4.69], [53.42, -4.33], [53.31, -4.03], [53.33, -3.83], [53.33, -3.49], [53.35, -3.32],
+    [53.25, -3.13], [53.37, -3.19], [53.56, -3.11], [53.65, -3.02], [53.82, -3.06], [53.93, -3.02],
+    [54.07, -2.88], [54.10, -3.24], [54.20, -3.28], [54.51, -3.65], [54.64, -3.58], [54.87, -3.40],
+    [54.95, -3.10], [54.98, -3.26], [54.87, -3.60], [54.80, -4.06], [54.68, -4.40], [54.63, -4.87],
+    [54.84, -5.13], [55.01, -5.17], [55.24, -4.87], [55.46, -4.64], [55.64, -4.82], [55.80, -4.88],
+    [55.95, -4.77], [55.95, -4.93], [55.86, -5.20], [55.42, -5.61], [55.29, -5.81], [55.70, -5.73],
+    [56.00, -5.66], [56.41, -5.48], [56.73, -6.24], [57.00, -5.84], [57.28, -5.72], [57.43, -5.83],
+    [57.73, -5.71], [57.90, -5.17], [58.15, -5.25], [58.63, -5.00], [58.57, -4.75], [58.53, -4.40],
+    [58.60, -3.52], [58.68, -3.37], [58.65, -3.02], [58.44, -3.08], [58.12, -3.64], [57.88, -4.02],
+    [57.86, -3.77], [57.48, -4.21], [57.59, -3.86], [57.72, -3.27], [57.69, -2.95], [57.70, -2.00],
+    [57.50, -1.77], [57.15, -2.07], [56.96, -2.19], [56.71, -2.45], [56.56, -2.57], [56.46, -2.86],
+    [56.34, -2.78], [56.28, -2.57], [56.11, -3.15], [56.04, -3.40], [56.07, -3.71], [56.00, -3.45],
+    [55.98, -3.16], [56.06, -2.71], [56.00, -2.51], [55.92, -2.13], [55.77, -1.99], [55.67, -1.79], [55.34, -1.57], [55.13, -1.49],
+    [55.02, -1.41], [54.91, -1.36], [54.69, -1.17], [54.62, -1.06], [54.49, -0.60], [54.28, -0.38],
+    [54.12, -0.06], [54.08, -0.18], [53.58, 0.12], [53.57, -0.07], [53.14, 0.35], [53.10, 0.34],
+    [52.97, -0.01], [52.76, 0.40], [52.94, 0.50], [52.94, 1.31], [52.72, 1.70], [52.48, 1.77],
+    [52.09, 1.59], [51.96, 1.36], [51.85, 1.28], [51.79, 1.17], [51.77, 0.93], [51.58, 0.96],
+    [51.53, 0.72], [51.45, 0.73], [51.44, 0.77], [51.36, 1.04], [51.39, 1.45], [51.33, 1.43],
+    [51.22, 1.42],
+  ],
+  // Northern Ireland, clockwise from Larne
+  [
+    [54.86, -5.80], [55.22, -6.15], [55.21, -6.24], [55.21, -6.65], [55.18, -6.95], [55.00, -7.32],
+    [54.83, -7.46], [54.70, -7.60], [54.48, -8.10], [54.30, -7.90], [54.18, -7.23], [54.40, -6.97],
+    [54.29, -6.85], [54.10, -6.40], [54.10, -6.25], [54.06, -6.00], [54.21, -5.89], [54.23, -5.66],
+    [54.26, -5.59], [54.46, -5.44], [54.65, -5.52], [54.68, -5.66], [54.73, -5.78], [54.76, -5.70],
+  ],
+  // Isle of Wight
+  [
+    [50.76, -1.30], [50.70, -1.07], [50.58, -1.29], [50.66, -1.57], [50.71, -1.50],
+  ],
+  // Skye
+  [
+    [57.70, -6.30], [57.58, -6.08], [57.28, -5.75], [57.05, -5.98], [57.20, -6.40], [57.47, -6.78],
+  ],
+];
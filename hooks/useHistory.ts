@@ -0,0 +1,58 @@
+import { useCallback, useState } from 'react';
+
+interface HistoryEntry<T> {
+    value: T;
+    // Describes the change that leads away from `value` (shown as "Undo <label>" / "Redo <label>")
+    label: string;
+}
+
+interface HistoryState<T> {
+    past: HistoryEntry<T>[];
+    present: T;
+    future: HistoryEntry<T>[];
+}
+
+const MAX_HISTORY = 100;
+
+// Undo/redo stack around a single value. `push` records a labelled change, `reset` starts a fresh history.
+export const useHistory = <T,>(initial: T) => {
+    const [state, setState] = useState<HistoryState<T>>({ past: [], present: initial, future: [] });
+
+    const push = useCallback((value: T, label: string) => setState(prev => ({
+        past: [...prev.past, { value: prev.present, label }].slice(-MAX_HISTORY),
+        present: value,
+        future: [],
+    })), []);
+
+    const undo = useCallback(() => setState(prev => {
+        const entry = prev.past[prev.past.length - 1];
+        if (!entry) return prev;
+        return {
+            past: prev.past.slice(0, -1),
+            present: entry.value,
+            future: [{ value: prev.present, label: entry.label }, ...prev.future],
+        };
+    }), []);
+
+    const redo = useCallback(() => setState(prev => {
+        const [entry, ...future] = prev.future;
+        if (!entry) return prev;
+        return {
+            past: [...prev.past, { value: prev.present, label: entry.label }],
+            present: entry.value,
+            future,
+        };
+    }), []);
+
+    const reset = useCallback((value: T) => setState({ past: [], present: value, future: [] }), []);
+
+    return {
+        present: state.present,
+        push,
+        undo,
+        redo,
+        reset,
+        undoLabel: state.past[state.past.length - 1]?.label ?? null,
+        redoLabel: state.future[0]?.label ?? null,
+    };
+};
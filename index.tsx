@@ -2,6 +2,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import './index.css';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -14,3 +15,13 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+// The service worker keeps the app shell and recently viewed tiles for offline use. It is only registered in
+// production builds, where the shell is stable; in dev it would serve stale modules.
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(() => {
+      // Offline support is optional; the app works without it
+    });
+  });
+}
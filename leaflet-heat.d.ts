@@ -0,0 +1,21 @@
+// leaflet.heat ships without type definitions; these cover the parts of its API the map uses
+import 'leaflet';
+
+declare module 'leaflet' {
+  interface HeatLayerOptions {
+    minOpacity?: number;
+    maxZoom?: number;
+    max?: number;
+    radius?: number;
+    blur?: number;
+    gradient?: { [stop: number]: string };
+  }
+
+  interface HeatLayer extends Layer {
+    setLatLngs(latlngs: [number, number, number][]): this;
+    setOptions(options: HeatLayerOptions): this;
+    redraw(): this;
+  }
+
+  function heatLayer(latlngs: [number, number, number][], options?: HeatLayerOptions): HeatLayer;
+}
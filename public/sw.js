@@ -0,0 +1,89 @@
+// Offline support for the hotspot map.
+// - The app shell (index.html and the hashed bundles Vite emits) is precached on install and then served
+//   stale-while-revalidate, with page loads going to the network first so a new deploy is picked up as soon as
+//   there is a connection. The build fills in BUILD_ASSETS (see vite.config.ts); it stays empty in the source.
+// - Map tiles are served cache-first and the most recently fetched ones are kept, so areas viewed recently
+//   still have a basemap offline. Only tiles fetched with CORS are kept; opaque responses can't be checked.
+// Bump VERSION when the caching rules change, so old caches are dropped on activate.
+const VERSION = 'v2';
+const SHELL_CACHE = `shell-${VERSION}`;
+const TILE_CACHE = `tiles-${VERSION}`;
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+const BUILD_ASSETS = [];
+const MAX_TILES = 2000;
+// z/x/y paths, as used by every tile server the basemap switcher offers (including Esri's z/y/x)
+const TILE_PATH = /\/\d+\/\d+\/\d+(@2x)?(\.\w+)?$/;
+
+self.addEventListener('install', event => {
+    event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.addAll([...SHELL_URLS, ...BUILD_ASSETS])).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+    event.waitUntil(
+        caches.keys()
+            .then(keys => Promise.all(keys.filter(key => key !== SHELL_CACHE && key !== TILE_CACHE).map(key => caches.delete(key))))
+            .then(() => self.clients.claim())
+    );
+});
+
+// Cache keys come back oldest first, so trimming from the front drops the least recently fetched tiles
+const trimTiles = async () => {
+    const cache = await caches.open(TILE_CACHE);
+    const keys = await cache.keys();
+    await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_TILES)).map(key => cache.delete(key)));
+};
+
+const tileResponse = async request => {
+    const cache = await caches.open(TILE_CACHE);
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (response.ok) {
+        await cache.put(request, response.clone());
+        trimTiles();
+    }
+    return response;
+};
+
+const pageResponse = async request => {
+    const cache = await caches.open(SHELL_CACHE);
+    try {
+        const response = await fetch(request);
+        if (response.ok) cache.put('/index.html', response.clone());
+        return response;
+    } catch (err) {
+        const cached = await cache.match('/index.html');
+        if (cached) return cached;
+        throw err;
+    }
+};
+
+const shellResponse = async request => {
+    const cache = await caches.open(SHELL_CACHE);
+    const cached = await cache.match(request);
+    const refresh = fetch(request).then(response => {
+        if (response.ok) cache.put(request, response.clone());
+        return response;
+    });
+    if (cached) {
+        refresh.catch(() => {});
+        return cached;
+    }
+    return refresh;
+};
+
+self.addEventListener('fetch', event => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+    const url = new URL(request.url);
+
+    // Tiles are matched first, so a custom tile server on this origin (/tiles/{z}/{x}/{y}.png) is trimmed too
+    if (request.mode === 'navigate') {
+        event.respondWith(pageResponse(request));
+    } else if (request.destination === 'image' && TILE_PATH.test(url.pathname)) {
+        event.respondWith(tileResponse(request));
+    } else if (url.origin === self.location.origin) {
+        event.respondWith(shellResponse(request));
+    }
+    // Anything else goes straight to the network
+});
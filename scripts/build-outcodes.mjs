@@ -0,0 +1,100 @@
+// Regenerates data/outcodes.ts from the ONS Postcode Directory (ONSPD) or the National Statistics Postcode
+// Lookup (NSPL), both free under the Open Government Licence: https://geoportal.statistics.gov.uk
+//
+//   node scripts/build-outcodes.mjs path/to/ONSPD_<month>_UK.csv
+//
+// Each outcode's centroid is the mean position of its live postcodes. Terminated postcodes and those without a
+// grid reference (ONS uses latitude 99.999999 for them) are skipped. Any CSV with `pcds`, `lat` and `long`
+// columns works, so a filtered extract of the directory is fine too.
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { fileURLToPath } from 'url';
+
+const OUTPUT = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'data', 'outcodes.ts');
+
+// ONSPD quotes every field but never puts commas inside one; quotes are still honoured for other extracts
+const splitLine = line => {
+    const fields = [];
+    let field = '';
+    let quoted = false;
+    for (const char of line) {
+        if (char === '"') quoted = !quoted;
+        else if (char === ',' && !quoted) {
+            fields.push(field);
+            field = '';
+        } else field += char;
+    }
+    fields.push(field);
+    return fields.map(value => value.trim());
+};
+
+// "AB1", "AB10", "AB2" sort as area letters, then district number, then any letter suffix (e.g. "EC1A")
+const compareOutcodes = (a, b) => {
+    const [, areaA, numberA, suffixA] = a.match(/^([A-Z]+)(\d+)(.*)$/);
+    const [, areaB, numberB, suffixB] = b.match(/^([A-Z]+)(\d+)(.*)$/);
+    return areaA.localeCompare(areaB) || Number(numberA) - Number(numberB) || suffixA.localeCompare(suffixB);
+};
+
+const main = async () => {
+    const source = process.argv[2];
+    if (!source) {
+        console.error('Usage: node scripts/build-outcodes.mjs <ONSPD or NSPL CSV>');
+        process.exit(1);
+    }
+
+    const totals = new Map();
+    let columns = null;
+    const lines = readline.createInterface({ input: fs.createReadStream(source), crlfDelay: Infinity });
+    for await (const line of lines) {
+        if (!line.trim()) continue;
+        const fields = splitLine(line);
+        if (!columns) {
+            const header = fields.map(name => name.toLowerCase());
+            columns = { postcode: header.indexOf('pcds'), lat: header.indexOf('lat'), lng: header.indexOf('long'), terminated: header.indexOf('doterm') };
+            if (columns.postcode < 0 || columns.lat < 0 || columns.lng < 0) {
+                console.error('The CSV needs pcds, lat and long columns (as in the ONSPD and NSPL).');
+                process.exit(1);
+            }
+            continue;
+        }
+        if (columns.terminated >= 0 && fields[columns.terminated]) continue;
+        const outcode = fields[columns.postcode].toUpperCase().split(' ')[0];
+        const lat = Number(fields[columns.lat]);
+        const lng = Number(fields[columns.lng]);
+        if (!outcode || !Number.isFinite(lat) || !Number.isFinite(lng) || lat > 90) continue;
+        const total = totals.get(outcode) ?? { lat: 0, lng: 0, count: 0 };
+        total.lat += lat;
+        total.lng += lng;
+        total.count += 1;
+        totals.set(outcode, total);
+    }
+
+    const rows = [...totals.keys()]
+        .filter(outcode => /^[A-Z]{1,2}\d[A-Z\d]?$/.test(outcode))
+        .sort(compareOutcodes)
+        .map(outcode => {
+            const { lat, lng, count } = totals.get(outcode);
+            return `  ['${outcode}', ${(lat / count).toFixed(3)}, ${(lng / count).toFixed(3)}],`;
+        });
+
+    const file = [
+        "import type { OutcodeCentroid } from '../types';",
+        '',
+        `// Centroids of every live UK postcode district (outcode), as [outcode, lat, lng]. Generated from ${path.basename(source)}`,
+        '// by scripts/build-outcodes.mjs: each centroid is the mean position of the district\'s postcodes. Do not edit by hand.',
+        '// Contains OS data © Crown copyright and database right; Royal Mail data © Royal Mail copyright and database right;',
+        '// National Statistics data © Crown copyright and database right (Open Government Licence v3.0).',
+        'const OUTCODE_ROWS: [string, number, number][] = [',
+        ...rows,
+        '];',
+        '',
+        'export const OUTCODE_CENTROIDS: OutcodeCentroid[] = OUTCODE_ROWS.map(([outcode, lat, lng]) => ({ outcode, lat, lng }));',
+        '',
+    ].join('\n');
+
+    fs.writeFileSync(OUTPUT, file);
+    console.log(`Wrote ${rows.length} outcodes to ${path.relative(process.cwd(), OUTPUT)}`);
+};
+
+main();
@@ -6,4 +6,335 @@ export interface LocationData {
   lat: number;
   lng: number;
   courierNeed: number;
+  notes?: string;
+  // Free-form labels such as "phase 1", used to filter and exported with the plan
+  tags?: string[];
+  // Kept on the map and in the list but left out of the plan: exports, report, budget, optimiser and coverage
+  excluded?: boolean;
+  // Weekly need values, oldest first; each date is the Monday the week starts on (YYYY-MM-DD)
+  history?: NeedPoint[];
 }
+
+export interface NeedPoint {
+  date: string;
+  need: number;
+}
+
+// A location parsed from an import file; the id is optional until it is merged into the dataset
+export interface ImportedLocation extends Omit<LocationData, 'id'> {
+  id?: number;
+  sourceRow: number;
+}
+
+export interface ImportIssue {
+  row: number;
+  city?: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export type ImportMode = 'replace' | 'merge';
+
+// Coverage radius in km, keyed by location id
+export type Radii = { [key: number]: number };
+
+export interface MapView {
+  lat: number;
+  lng: number;
+  zoom: number;
+}
+
+// The slice of App state that is saved to localStorage and encoded into share links
+export interface PersistedMapState {
+  radii: Radii;
+  isSynced: boolean;
+  uniformRadius: number;
+  showLabels: boolean;
+  showHeatmap: boolean;
+  isClusteringEnabled: boolean;
+  searchTerm: string;
+  view: MapView;
+  selectedId: number | null;
+  zones: Zone[];
+}
+
+export interface OutcodeCentroid {
+  outcode: string;
+  lat: number;
+  lng: number;
+}
+
+export interface BudgetSettings {
+  totalBudget: number;
+  costPerSignup: number;
+  // Floor spend for every included hotspot with non-zero need
+  minSpend: number;
+  // Optional spend cap per region name; regions without an entry are uncapped
+  regionCaps: { [region: string]: number };
+}
+
+export interface LocationAllocation {
+  location: LocationData;
+  spend: number;
+  expectedSignups: number;
+  excluded: boolean;
+}
+
+export interface RegionAllocation {
+  region: string;
+  hotspots: number;
+  courierNeed: number;
+  spend: number;
+  expectedSignups: number;
+  cap?: number;
+}
+
+export interface BudgetPlan {
+  locations: LocationAllocation[];
+  regions: RegionAllocation[];
+  allocated: number;
+  unallocated: number;
+  floorsScaled: boolean;
+}
+
+export type ClassificationMethod = 'equal-interval' | 'quantile' | 'natural-breaks';
+
+export interface SymbologySettings {
+  method: ClassificationMethod;
+  classCount: number;
+  // Which marker properties encode the need class
+  encoding: 'colour' | 'size' | 'both' | 'none';
+}
+
+// One class of a graduated legend: values in (min, max], except the first class which includes its min
+export interface NeedClass {
+  min: number;
+  max: number;
+  color: string;
+  size: number;
+}
+
+export interface MarkerStyle {
+  size: number;
+  color: string;
+}
+
+export type HeatNormalisation = 'absolute' | 'log' | 'relative';
+
+export interface HeatmapSettings {
+  radius: number;
+  blur: number;
+  normalisation: HeatNormalisation;
+  gradient: string;
+}
+
+// A hotspot being created or edited in the map editor; id is absent for new hotspots
+export interface LocationDraft {
+  id?: number;
+  city: string;
+  region: string;
+  lat: number;
+  lng: number;
+  courierNeed: number;
+}
+
+export interface LocationChange {
+  kind: 'added' | 'removed' | 'modified';
+  location: LocationData;
+  original?: LocationData;
+  fields: (keyof LocationData)[];
+}
+
+// The plan configuration captured by a named scenario
+export interface ScenarioSettings {
+  radii: Radii;
+  isSynced: boolean;
+  uniformRadius: number;
+  showLabels: boolean;
+  showHeatmap: boolean;
+  isClusteringEnabled: boolean;
+  // Absent from scenarios saved before zones were part of the plan; applying one of those leaves the zones alone
+  zones?: Zone[];
+}
+
+export interface Scenario {
+  id: string;
+  name: string;
+  createdAt: string;
+  settings: ScenarioSettings;
+}
+
+// Sidebar filters applied on top of the search; an empty region list means every region
+export interface LocationFilter {
+  regions: string[];
+  minNeed: number | null;
+  maxNeed: number | null;
+  // Restricts the list to these hotspots, e.g. the campaigns picked by the optimiser
+  ids: number[] | null;
+  // Hotspots carrying any of these tags; empty means no tag filter
+  tags: string[];
+}
+
+export type LocationSortKey = 'need' | 'name' | 'distance';
+
+export interface RegionGroup {
+  region: string;
+  locations: LocationData[];
+  courierNeed: number;
+  averageRadius: number;
+}
+
+// Change in need at a point on the timeline, against the previous week and as a recent weekly rate
+export interface NeedTrend {
+  current: number;
+  previous: number | null;
+  change: number | null;
+  slope: number;
+}
+
+// A real sign-up placed by its coordinates or, failing that, its postcode district's centroid
+export interface Applicant {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  postcode?: string;
+  sourceRow: number;
+}
+
+// An applicant's assigned hotspot or, when outside every circle, the nearest hotspot
+export interface ApplicantMatch {
+  applicant: Applicant;
+  matched: boolean;
+  location: LocationData | null;
+  distanceKm: number | null;
+}
+
+export interface ApplicantMatching {
+  matches: ApplicantMatch[];
+  unmatched: ApplicantMatch[];
+  filled: { [locationId: number]: number };
+}
+
+export type ZoneKind = 'polygon' | 'rectangle';
+
+// A drawn target zone, free-standing or linked to a hotspot; points are the [lat, lng] vertices of its outline
+export interface Zone {
+  id: string;
+  name: string;
+  kind: ZoneKind;
+  points: [number, number][];
+  locationId: number | null;
+  // A linked zone can stand in for the hotspot's coverage circle
+  replacesCircle: boolean;
+}
+
+export interface ZoneStats {
+  areaKm2: number;
+  locations: LocationData[];
+  courierNeed: number;
+}
+
+export type OptimiseMode = 'suggest' | 'top-k';
+
+export interface OptimiseSettings {
+  mode: OptimiseMode;
+  minRadiusKm: number;
+  maxRadiusKm: number;
+  campaignCount: number;
+}
+
+// What a set of circles reaches: need counts each hotspot whose centre lies inside any circle, once
+export interface PlanCoverage {
+  campaigns: number;
+  coveredNeed: number;
+  totalNeed: number;
+  areaKm2: number;
+  overlaps: number;
+}
+
+export interface OptimiseResult {
+  radii: Radii;
+  // Hotspots kept in the proposed plan, in the order they were picked
+  locationIds: number[];
+  before: PlanCoverage;
+  after: PlanCoverage;
+}
+
+// A hotspot's Voronoi catchment: the land closer to it than to any other listed hotspot
+export interface CatchmentCell {
+  location: LocationData;
+  // [lat, lng] rings, one per land mass the cell reaches
+  rings: [number, number][][];
+  areaKm2: number;
+  nearest: { location: LocationData; distanceKm: number } | null;
+  // Point of the cell farthest from its hotspot, and so from any hotspot
+  farthest: { lat: number; lng: number; distanceKm: number };
+}
+
+// Land outside every circle, found on a sampling grid
+export interface CoverageGaps {
+  // [south-west, north-east] [lat, lng] rectangles of grid squares
+  rectangles: [[number, number], [number, number]][];
+  uncoveredKm2: number;
+  landKm2: number;
+  // Uncovered area in each hotspot's catchment
+  byLocation: { [locationId: number]: number };
+}
+
+export type BasemapId = 'streets' | 'light' | 'satellite' | 'custom';
+
+export interface BasemapSettings {
+  id: BasemapId;
+  // Tile URL template for a self-hosted or local tile server, e.g. http://localhost:8080/{z}/{x}/{y}.png
+  customUrl: string;
+}
+
+// Unit for every distance and area shown or exported; radii are always stored in km
+export type DistanceUnit = 'km' | 'mi';
+
+export interface RadiusPreset {
+  id: string;
+  name: string;
+  radiusKm: number;
+}
+
+export type MeasureMode = 'distance' | 'area';
+
+// How hotspots are picked on the map for the selection toolbar
+export type SelectMode = 'box' | 'lasso';
+
+// A ruler vertex; clicks on or near a hotspot snap to it and carry its name
+export interface MeasurePoint {
+  lat: number;
+  lng: number;
+  city?: string;
+}
+
+// Embed mode, from the page's query string (?embed=1&origin=...&data=...)
+export interface EmbedOptions {
+  enabled: boolean;
+  // The host page's origin; only its messages are accepted and events are posted only to it. Null turns messaging off.
+  origin: string | null;
+  // URL of a CSV or GeoJSON dataset to load in place of the built-in hotspots
+  dataUrl: string | null;
+}
+
+// Messages an embedding page can send to the map
+export type EmbedCommand =
+  | { type: 'focusLocation'; id?: number; city?: string }
+  | { type: 'setFilter'; filter: Partial<LocationFilter>; search?: string }
+  | { type: 'setHeatmap'; visible: boolean }
+  | { type: 'setLabels'; visible: boolean }
+  | { type: 'getRadii'; requestId?: string }
+  // data is CSV or GeoJSON text, a GeoJSON object, or an array of records with the import columns
+  | { type: 'setDataset'; data: unknown; format?: 'csv' | 'geojson' }
+  | { type: 'setPlan'; radii?: unknown; zones?: unknown };
+
+// Messages the map posts to the embedding page
+export type EmbedEvent =
+  | { type: 'ready' }
+  | { type: 'markerClick'; location: LocationData; radiusKm: number }
+  | { type: 'radii'; requestId?: string; radii: Radii }
+  | { type: 'datasetLoaded'; count: number; issues: ImportIssue[] }
+  | { type: 'error'; command?: string; message: string };
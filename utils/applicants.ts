@@ -0,0 +1,93 @@
+import type { Applicant, ApplicantMatch, ApplicantMatching, ImportIssue, LocationData, Radii, Zone } from '../types';
+import { DEFAULT_RADIUS_KM } from '../constants';
+import { isValidCoordinate, resolveField, splitCsv } from './importData';
+import { lookupOutcode, parseOutcode } from './postcodes';
+import { distanceKm, pointInPolygon } from './geo';
+
+// Header aliases for applicant files (compared lower-cased, without spaces/underscores)
+const APPLICANT_ALIASES: { [field: string]: string[] } = {
+    id: ['id', 'applicantid', 'ref', 'reference'],
+    name: ['name', 'applicant', 'fullname'],
+    lat: ['lat', 'latitude'],
+    lng: ['lng', 'lon', 'long', 'longitude'],
+    postcode: ['postcode', 'postalcode', 'zip', 'outcode'],
+};
+
+const resolveApplicantField = resolveField(APPLICANT_ALIASES);
+
+// Places each applicant by lat/lng when both are valid, otherwise by the bundled centroid of their postcode district
+export const parseApplicantCsv = (text: string): { applicants: Applicant[]; issues: ImportIssue[] } => {
+    const rows = splitCsv(text.replace(/^\uFEFF/, ''));
+    if (rows.length === 0) {
+        throw new Error('The CSV file is empty.');
+    }
+
+    const fields = rows[0].map(resolveApplicantField);
+    if (!(fields.includes('lat') && fields.includes('lng')) && !fields.includes('postcode')) {
+        throw new Error('The CSV header needs lat and lng columns or a postcode column.');
+    }
+
+    const applicants: Applicant[] = [];
+    const issues: ImportIssue[] = [];
+    rows.slice(1).forEach((cells, index) => {
+        const row = index + 2;
+        if (!cells.some(cell => cell.trim() !== '')) return;
+
+        const cellFor = (field: string) => (fields.includes(field) ? (cells[fields.indexOf(field)] ?? '').trim() : '');
+        const name = cellFor('name') || `Applicant ${row - 1}`;
+        const postcode = cellFor('postcode').toUpperCase() || undefined;
+        const report = (message: string) => issues.push({ row, city: name, severity: 'error', message });
+        const base = { id: cellFor('id') || `row-${row}`, name, postcode, sourceRow: row };
+
+        const lat = parseFloat(cellFor('lat'));
+        const lng = parseFloat(cellFor('lng'));
+        if (isValidCoordinate(lat, lng)) {
+            applicants.push({ ...base, lat, lng });
+            return;
+        }
+
+        const centroid = postcode ? lookupOutcode(postcode) : null;
+        if (centroid) {
+            applicants.push({ ...base, lat: centroid.lat, lng: centroid.lng });
+        } else if (postcode && parseOutcode(postcode)) {
+            report(`Postcode district ${parseOutcode(postcode)} is not in the offline lookup table.`);
+        } else if (postcode) {
+            report(`"${postcode}" is not a UK postcode.`);
+        } else {
+            report('No valid coordinates or postcode.');
+        }
+    });
+
+    return { applicants, issues };
+};
+
+// Assigns each applicant to the nearest hotspot whose coverage (its circle, or the zone replacing it) contains them
+export const matchApplicants = (
+    applicants: Applicant[], locations: LocationData[], radii: Radii, replacements: Map<number, Zone> = new Map()
+): ApplicantMatching => {
+    const filled: ApplicantMatching['filled'] = {};
+    const matches: ApplicantMatch[] = applicants.map(applicant => {
+        let nearest: ApplicantMatch | null = null;
+        let nearestInside: ApplicantMatch | null = null;
+        for (const location of locations) {
+            const distance = distanceKm(applicant.lat, applicant.lng, location.lat, location.lng);
+            if (!nearest || distance < (nearest.distanceKm as number)) {
+                nearest = { applicant, matched: false, location, distanceKm: distance };
+            }
+            const zone = replacements.get(location.id);
+            const isCovered = zone
+                ? pointInPolygon(applicant.lat, applicant.lng, zone.points)
+                : distance <= (radii[location.id] ?? DEFAULT_RADIUS_KM);
+            if (isCovered && (!nearestInside || distance < (nearestInside.distanceKm as number))) {
+                nearestInside = { applicant, matched: true, location, distanceKm: distance };
+            }
+        }
+
+        if (nearestInside?.location) {
+            filled[nearestInside.location.id] = (filled[nearestInside.location.id] ?? 0) + 1;
+        }
+        return nearestInside ?? nearest ?? { applicant, matched: false, location: null, distanceKm: null };
+    });
+
+    return { matches, unmatched: matches.filter(match => !match.matched), filled };
+};
@@ -0,0 +1,80 @@
+import type { BasemapId, BasemapSettings } from '../types';
+import L from './leaflet';
+
+const STORAGE_KEY = 'uk-courier-hotspots:basemap';
+
+interface BasemapDefinition {
+    label: string;
+    url: string;
+    attribution: string;
+    subdomains?: string;
+    maxZoom: number;
+}
+
+const BASEMAPS: { [id in Exclude<BasemapId, 'custom'>]: BasemapDefinition } = {
+    streets: {
+        label: 'Streets',
+        url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+        attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+        maxZoom: 19,
+    },
+    light: {
+        label: 'Light',
+        url: 'https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png',
+        attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>',
+        subdomains: 'abcd',
+        maxZoom: 20,
+    },
+    satellite: {
+        label: 'Satellite',
+        url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+        attribution: 'Tiles &copy; Esri, Maxar, Earthstar Geographics',
+        maxZoom: 19,
+    },
+};
+
+export const BASEMAP_OPTIONS: { id: BasemapId; label: string }[] = [
+    ...(Object.keys(BASEMAPS) as Exclude<BasemapId, 'custom'>[]).map(id => ({ id, label: BASEMAPS[id].label })),
+    { id: 'custom', label: 'Custom / local server' },
+];
+
+export const DEFAULT_BASEMAP_SETTINGS: BasemapSettings = { id: 'streets', customUrl: '' };
+
+// A custom URL is usable once it is an http(s) or root-relative template with {z}, {x} and {y}
+export const isValidTileUrl = (url: string) =>
+    /^(https?:\/\/|\/)/.test(url.trim()) && ['{z}', '{x}', '{y}'].every(placeholder => url.includes(placeholder));
+
+// Builds the tile layer for the chosen basemap, falling back to streets while a custom URL is incomplete.
+// The built-in servers allow cross-origin reads, so their tiles are requested with CORS: the service worker
+// can then cache them as ordinary responses and the report snapshot can copy them. Local servers often
+// don't send CORS headers, so custom tiles are requested plainly.
+export const createTileLayer = ({ id, customUrl }: BasemapSettings): L.TileLayer => {
+    if (id === 'custom' && isValidTileUrl(customUrl)) {
+        return L.tileLayer(customUrl.trim(), { attribution: 'Custom tiles', maxZoom: 20 });
+    }
+    const basemap = BASEMAPS[id === 'custom' ? 'streets' : id];
+    return L.tileLayer(basemap.url, {
+        attribution: basemap.attribution,
+        maxZoom: basemap.maxZoom,
+        crossOrigin: true,
+        ...(basemap.subdomains ? { subdomains: basemap.subdomains } : {}),
+    });
+};
+
+export const loadBasemapSettings = (): BasemapSettings => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+        const id = BASEMAP_OPTIONS.some(option => option.id === stored?.id) ? stored.id : DEFAULT_BASEMAP_SETTINGS.id;
+        return { id, customUrl: typeof stored?.customUrl === 'string' ? stored.customUrl : '' };
+    } catch {
+        return DEFAULT_BASEMAP_SETTINGS;
+    }
+};
+
+export const saveBasemapSettings = (settings: BasemapSettings) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch {
+        // Persistence is best-effort, as for the rest of the saved state
+    }
+};
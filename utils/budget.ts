@@ -0,0 +1,106 @@
+import type { BudgetPlan, BudgetSettings, LocationData, RegionAllocation } from '../types';
+
+const EPSILON = 0.005;
+
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = {
+    totalBudget: 10000,
+    costPerSignup: 25,
+    minSpend: 0,
+    regionCaps: {},
+};
+
+export const regionLabel = (region: string) => region.trim() || 'Unassigned';
+
+// Splits the budget across hotspots in proportion to courierNeed. Each hotspot is capped at the spend needed
+// to fill its need (need x cost per sign-up) and each capped region at its limit; money a capped hotspot or
+// region can't absorb is redistributed to the rest, and whatever nobody can absorb is reported as unallocated.
+// Hotspots excluded from the plan are listed with no spend.
+export const allocateBudget = (locations: LocationData[], settings: BudgetSettings): BudgetPlan => {
+    const { totalBudget, costPerSignup, minSpend, regionCaps } = settings;
+    const eligible = locations.filter(loc => !loc.excluded && loc.courierNeed > 0);
+    const spend = new Map<number, number>(locations.map(loc => [loc.id, 0]));
+    const locationCap = (loc: LocationData) => loc.courierNeed * costPerSignup;
+    const regionCap = (loc: LocationData) => regionCaps[regionLabel(loc.region)] ?? Infinity;
+
+    const regionSpend = (region: string) => eligible
+        .filter(loc => regionLabel(loc.region) === region)
+        .reduce((sum, loc) => sum + (spend.get(loc.id) as number), 0);
+
+    // Floors first, scaled down together if they don't all fit in the budget or a region's cap
+    const floors = new Map(eligible.map(loc => [loc.id, Math.min(minSpend, locationCap(loc))]));
+    const totalFloors = [...floors.values()].reduce((sum, floor) => sum + floor, 0);
+    const floorScale = totalFloors > totalBudget ? totalBudget / totalFloors : 1;
+    let floorsScaled = floorScale < 1;
+    eligible.forEach(loc => spend.set(loc.id, (floors.get(loc.id) as number) * floorScale));
+
+    new Set(eligible.map(loc => regionLabel(loc.region))).forEach(region => {
+        const cap = regionCaps[region];
+        const used = regionSpend(region);
+        if (cap !== undefined && used > cap) {
+            floorsScaled = true;
+            eligible
+                .filter(loc => regionLabel(loc.region) === region)
+                .forEach(loc => spend.set(loc.id, (spend.get(loc.id) as number) * (cap / used)));
+        }
+    });
+
+    // Water-filling: share the remainder by need among hotspots that can still absorb spend
+    let remaining = totalBudget - eligible.reduce((sum, loc) => sum + (spend.get(loc.id) as number), 0);
+    for (let round = 0; round <= 2 * eligible.length && remaining > EPSILON; round++) {
+        const open = eligible.filter(loc =>
+            (spend.get(loc.id) as number) < locationCap(loc) - EPSILON
+            && regionSpend(regionLabel(loc.region)) < regionCap(loc) - EPSILON);
+        if (open.length === 0) break;
+
+        const openNeed = open.reduce((sum, loc) => sum + loc.courierNeed, 0);
+        const increments = new Map(open.map(loc => [
+            loc.id,
+            Math.min((remaining * loc.courierNeed) / openNeed, locationCap(loc) - (spend.get(loc.id) as number)),
+        ]));
+
+        // Scale a region's increments down if together they would break its cap
+        new Set(open.map(loc => regionLabel(loc.region))).forEach(region => {
+            const members = open.filter(loc => regionLabel(loc.region) === region);
+            const room = (regionCaps[region] ?? Infinity) - regionSpend(region);
+            const wanted = members.reduce((sum, loc) => sum + (increments.get(loc.id) as number), 0);
+            if (wanted > room) {
+                members.forEach(loc => increments.set(loc.id, (increments.get(loc.id) as number) * (room / wanted)));
+            }
+        });
+
+        increments.forEach((increment, id) => {
+            spend.set(id, (spend.get(id) as number) + increment);
+            remaining -= increment;
+        });
+    }
+
+    const allocations = locations.map(location => {
+        const locationSpend = spend.get(location.id) as number;
+        return {
+            location,
+            spend: locationSpend,
+            expectedSignups: costPerSignup > 0 ? locationSpend / costPerSignup : 0,
+            excluded: !!location.excluded,
+        };
+    });
+
+    const regions = new Map<string, RegionAllocation>();
+    allocations.forEach(({ location, spend: locationSpend, expectedSignups }) => {
+        const region = regionLabel(location.region);
+        const entry = regions.get(region) ?? { region, hotspots: 0, courierNeed: 0, spend: 0, expectedSignups: 0, cap: regionCaps[region] };
+        entry.hotspots++;
+        entry.courierNeed += location.courierNeed;
+        entry.spend += locationSpend;
+        entry.expectedSignups += expectedSignups;
+        regions.set(region, entry);
+    });
+
+    const allocated = allocations.reduce((sum, { spend: locationSpend }) => sum + locationSpend, 0);
+    return {
+        locations: allocations,
+        regions: [...regions.values()],
+        allocated,
+        unallocated: Math.max(0, totalBudget - allocated),
+        floorsScaled,
+    };
+};
@@ -0,0 +1,164 @@
+import type { CatchmentCell, CoverageGaps, LocationData, Radii, Zone } from '../types';
+import { DEFAULT_RADIUS_KM } from '../constants';
+import { UK_OUTLINE } from '../data/ukOutline';
+import { distanceKm, pointInPolygon } from './geo';
+
+// Cells are built on a flat projection centred on the UK (equirectangular at 54°N), so bisectors are straight lines
+const REFERENCE_LAT = 54;
+const KM_PER_DEGREE_LAT = 110.574;
+const KM_PER_DEGREE_LNG = 111.32 * Math.cos((REFERENCE_LAT * Math.PI) / 180);
+// Side of the grid squares used to find land outside every circle
+const GAP_GRID_KM = 4;
+
+type Point = [number, number];
+
+const project = (lat: number, lng: number): Point => [lng * KM_PER_DEGREE_LNG, lat * KM_PER_DEGREE_LAT];
+const unproject = ([x, y]: Point): [number, number] => [y / KM_PER_DEGREE_LAT, x / KM_PER_DEGREE_LNG];
+
+const OUTLINE_RINGS: Point[][] = UK_OUTLINE.map(ring => ring.map(([lat, lng]) => project(lat, lng)));
+
+const ringArea = (ring: Point[]) =>
+    Math.abs(ring.reduce((sum, [x1, y1], i) => {
+        const [x2, y2] = ring[(i + 1) % ring.length];
+        return sum + x1 * y2 - x2 * y1;
+    }, 0)) / 2;
+
+// Sutherland–Hodgman against one half-plane: keeps the part of the ring closer to `site` than to `other`
+const clipToSite = (ring: Point[], site: Point, other: Point): Point[] => {
+    const nx = other[0] - site[0];
+    const ny = other[1] - site[1];
+    const offset = (nx * (site[0] + other[0]) + ny * (site[1] + other[1])) / 2;
+    const side = ([x, y]: Point) => nx * x + ny * y - offset;
+
+    const clipped: Point[] = [];
+    ring.forEach((current, i) => {
+        const previous = ring[(i + ring.length - 1) % ring.length];
+        const a = side(previous);
+        const b = side(current);
+        if ((a <= 0) !== (b <= 0)) {
+            const t = a / (a - b);
+            clipped.push([previous[0] + t * (current[0] - previous[0]), previous[1] + t * (current[1] - previous[1])]);
+        }
+        if (b <= 0) clipped.push(current);
+    });
+    return clipped;
+};
+
+// Voronoi catchments of the hotspots, clipped to the coastline
+export const catchmentCells = (locations: LocationData[]): CatchmentCell[] => {
+    const sites = locations.map(loc => project(loc.lat, loc.lng));
+    return locations.map((location, index) => {
+        const rings = OUTLINE_RINGS
+            .map(ring => sites.reduce((clipped, other, j) =>
+                (j === index || clipped.length === 0 ? clipped : clipToSite(clipped, sites[index], other)), ring))
+            .filter(ring => ring.length >= 3);
+
+        const nearest = locations.reduce<CatchmentCell['nearest']>((best, other) => {
+            if (other.id === location.id) return best;
+            const d = distanceKm(location.lat, location.lng, other.lat, other.lng);
+            return !best || d < best.distanceKm ? { location: other, distanceKm: d } : best;
+        }, null);
+
+        // Distance from the hotspot is convex, so across the cell it peaks at a vertex
+        const farthest = rings.flat().reduce((best, point) => {
+            const [lat, lng] = unproject(point);
+            const d = distanceKm(location.lat, location.lng, lat, lng);
+            return d > best.distanceKm ? { lat, lng, distanceKm: d } : best;
+        }, { lat: location.lat, lng: location.lng, distanceKm: 0 });
+
+        return {
+            location,
+            rings: rings.map(ring => ring.map(unproject)),
+            areaKm2: rings.reduce((sum, ring) => sum + ringArea(ring), 0),
+            nearest,
+            farthest,
+        };
+    });
+};
+
+interface GridRow {
+    y: number;
+    lat: number;
+    kmPerDegreeLng: number;
+    // x of each land square's left edge, with its centre's longitude
+    squares: { x: number; lng: number }[];
+}
+
+let landGrid: GridRow[] | null = null;
+
+// The land squares never change, so they are found once and reused for every radius change
+const getLandGrid = (): GridRow[] => {
+    if (landGrid) return landGrid;
+    const points = OUTLINE_RINGS.flat();
+    const minX = Math.min(...points.map(([x]) => x));
+    const maxX = Math.max(...points.map(([x]) => x));
+    const minY = Math.min(...points.map(([, y]) => y));
+    const maxY = Math.max(...points.map(([, y]) => y));
+
+    landGrid = [];
+    for (let y = minY; y < maxY; y += GAP_GRID_KM) {
+        const [lat] = unproject([0, y + GAP_GRID_KM / 2]);
+        const squares: GridRow['squares'] = [];
+        for (let x = minX; x < maxX; x += GAP_GRID_KM) {
+            const [, lng] = unproject([x + GAP_GRID_KM / 2, 0]);
+            if (UK_OUTLINE.some(ring => pointInPolygon(lat, lng, ring))) squares.push({ x, lng });
+        }
+        landGrid.push({ y, lat, kmPerDegreeLng: 111.32 * Math.cos((lat * Math.PI) / 180), squares });
+    }
+    return landGrid;
+};
+
+// Land outside every circle (or the zone replacing it), sampled at the centre of each grid square. Each gap square
+// is credited to the catchment of its nearest hotspot.
+export const coverageGaps = (locations: LocationData[], radii: Radii, replacements: Map<number, Zone> = new Map()): CoverageGaps => {
+    const squareArea = GAP_GRID_KM * GAP_GRID_KM;
+    const rectangles: CoverageGaps['rectangles'] = [];
+    const byLocation: CoverageGaps['byLocation'] = {};
+    let uncoveredKm2 = 0;
+    let landKm2 = 0;
+
+    getLandGrid().forEach(({ y, lat, kmPerDegreeLng, squares }) => {
+        // Neighbouring gap squares in a row are merged into one rectangle to keep the layer light
+        let run: { start: number; end: number } | null = null;
+        const closeRun = () => {
+            if (run) rectangles.push([unproject([run.start, y]), unproject([run.end, y + GAP_GRID_KM])]);
+            run = null;
+        };
+
+        squares.forEach(({ x, lng }) => {
+            landKm2 += squareArea;
+            let nearest: LocationData | null = null;
+            let nearestDistance = Infinity;
+            let isCovered = false;
+            for (const loc of locations) {
+                const dx = (lng - loc.lng) * kmPerDegreeLng;
+                const dy = (lat - loc.lat) * KM_PER_DEGREE_LAT;
+                const d = Math.sqrt(dx * dx + dy * dy);
+                const zone = replacements.get(loc.id);
+                if (zone ? pointInPolygon(lat, lng, zone.points) : d <= (radii[loc.id] ?? DEFAULT_RADIUS_KM)) {
+                    isCovered = true;
+                    break;
+                }
+                if (d < nearestDistance) {
+                    nearestDistance = d;
+                    nearest = loc;
+                }
+            }
+            if (isCovered) {
+                closeRun();
+                return;
+            }
+            uncoveredKm2 += squareArea;
+            if (nearest) byLocation[nearest.id] = (byLocation[nearest.id] ?? 0) + squareArea;
+            if (run && run.end === x) {
+                run.end = x + GAP_GRID_KM;
+            } else {
+                closeRun();
+                run = { start: x, end: x + GAP_GRID_KM };
+            }
+        });
+        closeRun();
+    });
+
+    return { rectangles, uncoveredKm2, landKm2, byLocation };
+};
@@ -0,0 +1,113 @@
+import type { ClassificationMethod, NeedClass, SymbologySettings } from '../types';
+
+export const DEFAULT_SYMBOLOGY: SymbologySettings = {
+    method: 'natural-breaks',
+    classCount: 5,
+    encoding: 'both',
+};
+
+export const CLASSIFICATION_METHODS: { value: ClassificationMethod; label: string }[] = [
+    { value: 'equal-interval', label: 'Equal interval' },
+    { value: 'quantile', label: 'Quantile' },
+    { value: 'natural-breaks', label: 'Natural breaks (Jenks)' },
+];
+
+export const MIN_CLASSES = 3;
+export const MAX_CLASSES = 7;
+
+// ColorBrewer YlOrRd sequential ramps, indexed by class count
+const COLOR_RAMPS: { [count: number]: string[] } = {
+    3: ['#ffeda0', '#feb24c', '#f03b20'],
+    4: ['#ffffb2', '#fecc5c', '#fd8d3c', '#e31a1c'],
+    5: ['#ffffb2', '#fecc5c', '#fd8d3c', '#f03b20', '#bd0026'],
+    6: ['#ffffb2', '#fed976', '#feb24c', '#fd8d3c', '#f03b20', '#bd0026'],
+    7: ['#ffffb2', '#fed976', '#feb24c', '#fd8d3c', '#fc4e2a', '#e31a1c', '#b10026'],
+};
+
+const MIN_DOT_SIZE = 8;
+const MAX_DOT_SIZE = 24;
+
+const equalIntervalBreaks = (sorted: number[], count: number) => {
+    const min = sorted[0];
+    const width = (sorted[sorted.length - 1] - min) / count;
+    return Array.from({ length: count }, (_, i) => min + width * (i + 1));
+};
+
+const quantileBreaks = (sorted: number[], count: number) =>
+    Array.from({ length: count }, (_, i) => sorted[Math.ceil(((i + 1) * sorted.length) / count) - 1]);
+
+// Jenks natural breaks: dynamic programming that minimises the summed within-class variance
+const naturalBreaks = (sorted: number[], count: number) => {
+    const n = sorted.length;
+    const lowerClassLimits = Array.from({ length: n + 1 }, () => new Array(count + 1).fill(0));
+    const variances = Array.from({ length: n + 1 }, () => new Array(count + 1).fill(Infinity));
+    for (let j = 1; j <= count; j++) {
+        lowerClassLimits[1][j] = 1;
+        variances[1][j] = 0;
+    }
+
+    for (let l = 2; l <= n; l++) {
+        let sum = 0;
+        let sumSquares = 0;
+        let weight = 0;
+        let variance = 0;
+        for (let m = 1; m <= l; m++) {
+            const lowerIndex = l - m + 1;
+            const value = sorted[lowerIndex - 1];
+            weight++;
+            sum += value;
+            sumSquares += value * value;
+            variance = sumSquares - (sum * sum) / weight;
+            if (lowerIndex > 1) {
+                for (let j = 2; j <= count; j++) {
+                    if (variances[l][j] >= variance + variances[lowerIndex - 1][j - 1]) {
+                        lowerClassLimits[l][j] = lowerIndex;
+                        variances[l][j] = variance + variances[lowerIndex - 1][j - 1];
+                    }
+                }
+            }
+        }
+        lowerClassLimits[l][1] = 1;
+        variances[l][1] = variance;
+    }
+
+    const breaks = new Array(count).fill(0);
+    breaks[count - 1] = sorted[n - 1];
+    let k = n;
+    for (let j = count; j >= 2; j--) {
+        const lower = lowerClassLimits[k][j] - 1;
+        breaks[j - 2] = sorted[lower - 1];
+        k = lower;
+    }
+    return breaks;
+};
+
+const BREAK_METHODS: { [method in ClassificationMethod]: (sorted: number[], count: number) => number[] } = {
+    'equal-interval': equalIntervalBreaks,
+    quantile: quantileBreaks,
+    'natural-breaks': naturalBreaks,
+};
+
+// Builds legend classes for a set of values. Duplicate breaks (few distinct values) are merged,
+// so fewer classes than requested may come back.
+export const classifyValues = (values: number[], method: ClassificationMethod, classCount: number): NeedClass[] => {
+    if (values.length === 0) return [];
+    const sorted = [...values].sort((a, b) => a - b);
+    const count = Math.min(classCount, new Set(sorted).size);
+    if (count <= 1) {
+        return [{ min: sorted[0], max: sorted[sorted.length - 1], color: COLOR_RAMPS[MIN_CLASSES][MIN_CLASSES - 1], size: MAX_DOT_SIZE }];
+    }
+
+    const breaks = [...new Set(BREAK_METHODS[method](sorted, count).map(value => Math.round(value * 100) / 100))];
+    const ramp = COLOR_RAMPS[Math.max(MIN_CLASSES, breaks.length)].slice(-breaks.length);
+    return breaks.map((max, i) => ({
+        min: i === 0 ? sorted[0] : breaks[i - 1],
+        max,
+        color: ramp[i],
+        size: Math.round(MIN_DOT_SIZE + ((MAX_DOT_SIZE - MIN_DOT_SIZE) * i) / Math.max(1, breaks.length - 1)),
+    }));
+};
+
+// Values outside the classified range (e.g. hotspots hidden by the filter) fall into the nearest end class
+export const classFor = (value: number, classes: NeedClass[]): NeedClass | undefined =>
+    classes.find(needClass => value <= needClass.max) ?? classes[classes.length - 1];
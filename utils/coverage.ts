@@ -0,0 +1,132 @@
+import type { LocationData, Radii } from '../types';
+import { MIN_RADIUS_KM } from '../constants';
+import { circleAreaKm2, circleRing, distanceKm } from './geo';
+
+export interface OverlapPair {
+    a: LocationData;
+    b: LocationData;
+    distanceKm: number;
+    sharedAreaKm2: number;
+}
+
+export interface CoverageStats {
+    totalCircleAreaKm2: number;
+    unionAreaKm2: number;
+}
+
+// Area of the lens where two circles with centres d km apart intersect (planar approximation, fine at these scales)
+export const circleIntersectionArea = (r1: number, r2: number, d: number): number => {
+    if (d >= r1 + r2) return 0;
+    if (d <= Math.abs(r1 - r2)) return circleAreaKm2(Math.min(r1, r2));
+
+    const part1 = r1 * r1 * Math.acos((d * d + r1 * r1 - r2 * r2) / (2 * d * r1));
+    const part2 = r2 * r2 * Math.acos((d * d + r2 * r2 - r1 * r1) / (2 * d * r2));
+    const part3 = 0.5 * Math.sqrt((-d + r1 + r2) * (d + r1 - r2) * (d - r1 + r2) * (d + r1 + r2));
+    return part1 + part2 - part3;
+};
+
+export const findOverlaps = (locations: LocationData[], radii: Radii): OverlapPair[] => {
+    const pairs: OverlapPair[] = [];
+    for (let i = 0; i < locations.length; i++) {
+        for (let j = i + 1; j < locations.length; j++) {
+            const a = locations[i];
+            const b = locations[j];
+            const d = distanceKm(a.lat, a.lng, b.lat, b.lng);
+            if (d < radii[a.id] + radii[b.id]) {
+                pairs.push({ a, b, distanceKm: d, sharedAreaKm2: circleIntersectionArea(radii[a.id], radii[b.id], d) });
+            }
+        }
+    }
+    return pairs.sort((p, q) => q.sharedAreaKm2 - p.sharedAreaKm2);
+};
+
+// Groups locations whose circles overlap directly or through a chain of other circles
+const overlapComponents = (locations: LocationData[], pairs: OverlapPair[]): LocationData[][] => {
+    const parent = new Map<number, number>(locations.map(loc => [loc.id, loc.id]));
+    const find = (id: number): number => {
+        const root = parent.get(id) as number;
+        if (root === id) return id;
+        const top = find(root);
+        parent.set(id, top);
+        return top;
+    };
+    pairs.forEach(({ a, b }) => parent.set(find(a.id), find(b.id)));
+
+    const groups = new Map<number, LocationData[]>();
+    locations.forEach(loc => {
+        const root = find(loc.id);
+        groups.set(root, [...(groups.get(root) ?? []), loc]);
+    });
+    return [...groups.values()];
+};
+
+const KM_PER_DEGREE_LAT = 110.574;
+const MAX_GRID_CELLS = 100000;
+
+// Union area of a group of overlapping circles, estimated by sampling a grid on a local flat projection
+const componentUnionArea = (group: LocationData[], radii: Radii): number => {
+    const lat0 = group.reduce((sum, loc) => sum + loc.lat, 0) / group.length;
+    const kmPerDegreeLng = 111.32 * Math.cos((lat0 * Math.PI) / 180);
+    const circles = group.map(loc => ({ x: loc.lng * kmPerDegreeLng, y: loc.lat * KM_PER_DEGREE_LAT, r: radii[loc.id] }));
+
+    const minX = Math.min(...circles.map(c => c.x - c.r));
+    const maxX = Math.max(...circles.map(c => c.x + c.r));
+    const minY = Math.min(...circles.map(c => c.y - c.r));
+    const maxY = Math.max(...circles.map(c => c.y + c.r));
+    const step = Math.max(0.1, Math.sqrt(((maxX - minX) * (maxY - minY)) / MAX_GRID_CELLS));
+
+    let covered = 0;
+    for (let x = minX + step / 2; x < maxX; x += step) {
+        for (let y = minY + step / 2; y < maxY; y += step) {
+            if (circles.some(c => (x - c.x) ** 2 + (y - c.y) ** 2 <= c.r * c.r)) covered++;
+        }
+    }
+    return covered * step * step;
+};
+
+export const coverageStats = (locations: LocationData[], radii: Radii, pairs: OverlapPair[]): CoverageStats => {
+    const totalCircleAreaKm2 = locations.reduce((sum, loc) => sum + circleAreaKm2(radii[loc.id]), 0);
+    const unionAreaKm2 = overlapComponents(locations, pairs).reduce((sum, group) =>
+        sum + (group.length === 1 ? circleAreaKm2(radii[group[0].id]) : componentUnionArea(group, radii)), 0);
+    return { totalCircleAreaKm2, unionAreaKm2 };
+};
+
+// Total need of the hotspots (including itself) whose centre lies inside a hotspot's circle
+export const coveredNeed = (loc: LocationData, radiusKm: number, locations: LocationData[]) =>
+    locations
+        .filter(other => distanceKm(loc.lat, loc.lng, other.lat, other.lng) <= radiusKm)
+        .reduce((sum, other) => sum + other.courierNeed, 0);
+
+// Lens-shaped intersection of two coverage circles as [lat, lng] points, ready for L.polygon
+export const intersectionPolygon = ({ a, b }: OverlapPair, radii: Radii): [number, number][] => {
+    const insideA = circleRing(b.lat, b.lng, radii[b.id], 128)
+        .filter(([lng, lat]) => distanceKm(lat, lng, a.lat, a.lng) <= radii[a.id]);
+    const insideB = circleRing(a.lat, a.lng, radii[a.id], 128)
+        .filter(([lng, lat]) => distanceKm(lat, lng, b.lat, b.lng) <= radii[b.id]);
+    const points = [...insideA, ...insideB];
+    if (points.length < 3) return [];
+
+    // The lens is convex, so ordering its boundary points by angle around their centroid traces the outline
+    const cx = points.reduce((sum, [lng]) => sum + lng, 0) / points.length;
+    const cy = points.reduce((sum, [, lat]) => sum + lat, 0) / points.length;
+    return points
+        .sort(([lng1, lat1], [lng2, lat2]) => Math.atan2(lat1 - cy, lng1 - cx) - Math.atan2(lat2 - cy, lng2 - cx))
+        .map(([lng, lat]) => [lat, lng]);
+};
+
+// Scales down each overlapping circle just enough that no pair overlaps. A circle shrinks by the smallest
+// factor any of its pairs needs, so one pass suffices. Radii are floored to whole km (the slider step) and
+// never go below the minimum, so hotspots closer than twice the minimum radius can still overlap.
+export const shrinkToRemoveOverlaps = (pairs: OverlapPair[], radii: Radii): Radii => {
+    const factors = new Map<number, number>();
+    pairs.forEach(({ a, b, distanceKm: d }) => {
+        const factor = d / (radii[a.id] + radii[b.id]);
+        [a.id, b.id].forEach(id => factors.set(id, Math.min(factors.get(id) ?? 1, factor)));
+    });
+
+    const next = { ...radii };
+    factors.forEach((factor, id) => {
+        next[id] = Math.max(MIN_RADIUS_KM, Math.floor(radii[id] * factor));
+    });
+    return next;
+};
@@ -0,0 +1,16 @@
+// Triggers a browser download of a URL (object or data URL) under the given file name
+export const downloadUrl = (fileName: string, url: string) => {
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+};
+
+// Triggers a browser download of generated text content
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    downloadUrl(fileName, url);
+    URL.revokeObjectURL(url);
+};
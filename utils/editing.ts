@@ -0,0 +1,121 @@
+import type { LocationChange, LocationData, LocationDraft, NeedPoint } from '../types';
+import { isRecord } from './guards';
+import { isValidCoordinate } from './importData';
+import { parseTags } from './tags';
+
+const STORAGE_KEY = 'uk-courier-hotspots:dataset';
+const WEEK_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const COMPARED_FIELDS: (keyof LocationData)[] = ['city', 'region', 'lat', 'lng', 'courierNeed', 'notes', 'tags', 'excluded'];
+
+// Tag lists are compared by content, since re-adding a removed tag builds a new array
+const sameValue = (a: unknown, b: unknown) =>
+    Array.isArray(a) && Array.isArray(b) ? a.join('\n') === b.join('\n') : a === b;
+
+export const nextLocationId = (...datasets: LocationData[][]) =>
+    Math.max(0, ...datasets.flat().map(loc => loc.id)) + 1;
+
+// Lists what the edited dataset changes relative to the original, matched by id
+export const diffLocations = (original: LocationData[], edited: LocationData[]): LocationChange[] => {
+    const originalById = new Map(original.map(loc => [loc.id, loc]));
+    const editedIds = new Set(edited.map(loc => loc.id));
+    const changes: LocationChange[] = [];
+
+    edited.forEach(location => {
+        const before = originalById.get(location.id);
+        if (!before) {
+            changes.push({ kind: 'added', location, fields: [] });
+            return;
+        }
+        const fields = COMPARED_FIELDS.filter(field => !sameValue(before[field], location[field]));
+        if (fields.length > 0) changes.push({ kind: 'modified', location, original: before, fields });
+    });
+    original
+        .filter(location => !editedIds.has(location.id))
+        .forEach(location => changes.push({ kind: 'removed', location, fields: [] }));
+
+    return changes;
+};
+
+// Undoes one change by restoring the original version of that hotspot (or removing an added one)
+export const revertChange = (edited: LocationData[], change: LocationChange): LocationData[] => {
+    switch (change.kind) {
+        case 'added':
+            return edited.filter(loc => loc.id !== change.location.id);
+        case 'removed':
+            return [...edited, change.location];
+        case 'modified':
+            return edited.map(loc => (loc.id === change.location.id ? change.original as LocationData : loc));
+    }
+};
+
+export const validateDraft = (draft: LocationDraft): string | null => {
+    if (!draft.city.trim()) return 'City is required.';
+    if (!Number.isFinite(draft.courierNeed) || draft.courierNeed < 0) return 'Courier need must be a non-negative number.';
+    return null;
+};
+
+export interface StoredDataset {
+    original: LocationData[];
+    edited: LocationData[];
+}
+
+// A stored hotspot must still place on the map; broken optional fields are dropped rather than the hotspot
+const sanitizeLocation = (raw: unknown): LocationData | null => {
+    if (!isRecord(raw)) return null;
+    const { id, city, region, lat, lng, courierNeed } = raw;
+    if (typeof id !== 'number' || !Number.isInteger(id) || typeof city !== 'string' || !city.trim() || typeof region !== 'string'
+        || typeof lat !== 'number' || typeof lng !== 'number' || !isValidCoordinate(lat, lng)
+        || typeof courierNeed !== 'number' || !Number.isFinite(courierNeed) || courierNeed < 0) {
+        return null;
+    }
+    const tags = Array.isArray(raw.tags) ? parseTags(raw.tags.filter((tag: unknown) => typeof tag === 'string').join(';')) : [];
+    const history: NeedPoint[] = Array.isArray(raw.history)
+        ? raw.history.flatMap((point: unknown) => (
+            isRecord(point) && typeof point.date === 'string' && WEEK_DATE.test(point.date)
+            && typeof point.need === 'number' && Number.isFinite(point.need) && point.need >= 0
+                ? [{ date: point.date, need: point.need }]
+                : []
+        ))
+        : [];
+    return {
+        id, city, region, lat, lng, courierNeed,
+        ...(typeof raw.notes === 'string' && raw.notes ? { notes: raw.notes } : {}),
+        ...(tags.length > 0 ? { tags } : {}),
+        ...(raw.excluded === true ? { excluded: true } : {}),
+        ...(history.length > 0 ? { history } : {}),
+    };
+};
+
+const sanitizeDataset = (raw: unknown): LocationData[] => {
+    if (!Array.isArray(raw)) return [];
+    const seenIds = new Set<number>();
+    return raw.flatMap(entry => {
+        const loc = sanitizeLocation(entry);
+        if (!loc || seenIds.has(loc.id)) return [];
+        seenIds.add(loc.id);
+        return [loc];
+    });
+};
+
+// The imported dataset and its edits, so notes, tags and exclusions survive a reload. The undo history does not.
+export const loadStoredDataset = (): StoredDataset | null => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+        const original = sanitizeDataset(stored?.original);
+        if (original.length === 0) return null;
+        return { original, edited: sanitizeDataset(stored?.edited) };
+    } catch {
+        return null;
+    }
+};
+
+// Passing null clears the stored copy, for when the built-in dataset is shown unedited
+export const saveStoredDataset = (dataset: StoredDataset | null) => {
+    try {
+        if (dataset) localStorage.setItem(STORAGE_KEY, JSON.stringify(dataset));
+        else localStorage.removeItem(STORAGE_KEY);
+    } catch {
+        // Persistence is best-effort, as for the rest of the saved state
+    }
+};
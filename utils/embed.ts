@@ -0,0 +1,83 @@
+import type { EmbedCommand, EmbedEvent, EmbedOptions, ImportIssue, LocationData, LocationFilter } from '../types';
+import { isRecord } from './guards';
+import { applyImport, buildLocations, parseGeoJson, parseLocationFile, parseRecords } from './importData';
+
+// Sent with every event so a host page listening to several frames can tell this map's messages apart
+export const EMBED_SOURCE = 'uk-courier-hotspots';
+
+export const parseEmbedOptions = (search: string): EmbedOptions => {
+    const params = new URLSearchParams(search);
+    const enabled = params.get('embed') === '1' || params.get('embed') === 'true';
+    let origin: string | null = null;
+    try {
+        const parsed = params.has('origin') ? new URL(params.get('origin') as string).origin : null;
+        // Opaque origins (file:, data:) come back as "null" and can't be matched, so they count as malformed
+        origin = parsed === 'null' ? null : parsed;
+    } catch {
+        // A malformed origin turns messaging off, as if none were given, rather than opening it to any page
+    }
+    // A hint for whoever is wiring up the embed; production builds stay quiet
+    if (import.meta.env.DEV && enabled && origin === null) {
+        console.warn('Embed messaging is off: add origin=<host page origin> to the map URL to send commands and receive events.');
+    }
+    return { enabled, origin, dataUrl: enabled ? params.get('data') : null };
+};
+
+// Only the page the map is embedded in may drive it, and only from the configured origin. Without one, messaging is off.
+export const isHostMessage = (event: MessageEvent, { origin }: EmbedOptions) =>
+    origin !== null && event.source === window.parent && window.parent !== window && event.origin === origin;
+
+// Events carry hotspot data (notes included), so they only go to a configured origin, never to '*'
+export const postToHost = ({ enabled, origin }: EmbedOptions, event: EmbedEvent) => {
+    if (!enabled || origin === null || window.parent === window) return;
+    window.parent.postMessage({ source: EMBED_SOURCE, ...event }, origin);
+};
+
+const isNumberList = (value: unknown): value is number[] => Array.isArray(value) && value.every(Number.isInteger);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const optionalNumber = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : null);
+
+// Checks the shape of a posted message; anything unrecognised is ignored rather than half-applied
+export const parseEmbedCommand = (data: unknown): EmbedCommand | null => {
+    if (!isRecord(data)) return null;
+    switch (data.type) {
+        case 'focusLocation': {
+            const id = typeof data.id === 'number' && Number.isInteger(data.id) ? data.id : undefined;
+            const city = typeof data.city === 'string' ? data.city : undefined;
+            return id !== undefined || city !== undefined ? { type: 'focusLocation', id, city } : null;
+        }
+        case 'setFilter': {
+            const filter: Partial<LocationFilter> = {};
+            const raw = isRecord(data.filter) ? data.filter : {};
+            if (Array.isArray(raw.regions)) filter.regions = raw.regions.filter(isString);
+            if ('minNeed' in raw) filter.minNeed = optionalNumber(raw.minNeed);
+            if ('maxNeed' in raw) filter.maxNeed = optionalNumber(raw.maxNeed);
+            if ('ids' in raw) filter.ids = isNumberList(raw.ids) ? raw.ids : null;
+            if (Array.isArray(raw.tags)) filter.tags = raw.tags.filter(isString);
+            return { type: 'setFilter', filter, search: typeof data.search === 'string' ? data.search.slice(0, 100) : undefined };
+        }
+        case 'setHeatmap':
+        case 'setLabels':
+            return typeof data.visible === 'boolean' ? { type: data.type, visible: data.visible } : null;
+        case 'getRadii':
+            return { type: 'getRadii', requestId: typeof data.requestId === 'string' ? data.requestId : undefined };
+        case 'setDataset':
+            return { type: 'setDataset', data: data.data, format: data.format === 'csv' || data.format === 'geojson' ? data.format : undefined };
+        case 'setPlan':
+            return { type: 'setPlan', radii: data.radii, zones: data.zones };
+        default:
+            return null;
+    }
+};
+
+// A posted or fetched dataset, through the same parsing and checks as a file import. Throws when nothing usable
+// is left, like the importer does for an unreadable file.
+export const datasetFromEmbed = (data: unknown, format?: 'csv' | 'geojson'): { locations: LocationData[]; issues: ImportIssue[] } => {
+    const records = typeof data === 'string' ? parseLocationFile(format ? `data.${format}` : '', data)
+        : Array.isArray(data) ? parseRecords(data)
+        : data && typeof data === 'object' ? parseGeoJson(JSON.stringify(data))
+        : [];
+    const { locations, issues } = buildLocations(records);
+    if (locations.length === 0) throw new Error('The dataset contains no hotspots that can be placed on the map.');
+    return { locations: applyImport([], locations, 'replace'), issues };
+};
@@ -0,0 +1,137 @@
+import type { DistanceUnit, LocationData, Radii, Zone } from '../types';
+import { circleRing } from './geo';
+import { downloadFile } from './download';
+import { outcodesWithinRadius } from './postcodes';
+import { formatTags } from './tags';
+import { formatDistance, roundTo, toUnit } from './units';
+import { buildZonesGeoJson, coverageZones, zoneRing } from './zones';
+
+export type ExportFormat = 'geojson' | 'kml' | 'csv' | 'outcodes' | 'zones';
+
+const roundCoord = (value: number) => Math.round(value * 1e6) / 1e6;
+
+const escapeXml = (text: string) => text.replace(/[<>&'"]/g, char => ({
+    '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;',
+}[char] as string));
+
+export const escapeCsvCell = (value: string | number) => {
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Coverage outline as a closed [lng, lat] ring: the hotspot's replacement zone if it has one, else its circle
+const coverageRing = (loc: LocationData, radii: Radii, replacements: Map<number, Zone>) => {
+    const zone = replacements.get(loc.id);
+    return zone ? zoneRing(zone) : circleRing(loc.lat, loc.lng, radii[loc.id]);
+};
+
+// Exports always carry radiusKm; with miles chosen they also carry the radius in miles, for people reading them
+export const buildPlanGeoJson = (locations: LocationData[], radii: Radii, zones: Zone[] = [], unit: DistanceUnit = 'km') => {
+    const replacements = coverageZones(zones);
+    const features = locations.flatMap(loc => {
+        const properties = {
+            id: loc.id,
+            city: loc.city,
+            region: loc.region,
+            courierNeed: loc.courierNeed,
+            radiusKm: radii[loc.id],
+            ...(unit === 'mi' ? { radiusMiles: roundTo(toUnit(radii[loc.id], 'mi'), 2) } : {}),
+            ...(loc.notes ? { notes: loc.notes } : {}),
+            ...(loc.tags ? { tags: loc.tags } : {}),
+            ...(loc.history ? { history: loc.history } : {}),
+        };
+        return [
+            {
+                type: 'Feature',
+                properties: { ...properties, kind: 'hotspot' },
+                geometry: { type: 'Point', coordinates: [roundCoord(loc.lng), roundCoord(loc.lat)] },
+            },
+            {
+                type: 'Feature',
+                properties: { ...properties, kind: 'coverage', shape: replacements.has(loc.id) ? 'zone' : 'circle' },
+                geometry: {
+                    type: 'Polygon',
+                    coordinates: [coverageRing(loc, radii, replacements).map(([lng, lat]) => [roundCoord(lng), roundCoord(lat)])],
+                },
+            },
+        ];
+    });
+    return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+};
+
+export const buildPlanKml = (locations: LocationData[], radii: Radii, zones: Zone[] = [], unit: DistanceUnit = 'km') => {
+    const replacements = coverageZones(zones);
+    const placemarks = locations.map(loc => {
+        const ring = coverageRing(loc, radii, replacements)
+            .map(([lng, lat]) => `${roundCoord(lng)},${roundCoord(lat)},0`)
+            .join(' ');
+        return `    <Placemark>
+      <name>${escapeXml(loc.city)}</name>
+      <description>${escapeXml(`${loc.region} - courier need ${loc.courierNeed}, radius ${formatDistance(radii[loc.id], unit, 2)}`)}</description>
+      <styleUrl>#coverage</styleUrl>
+      <ExtendedData>
+        <Data name="id"><value>${loc.id}</value></Data>
+        <Data name="region"><value>${escapeXml(loc.region)}</value></Data>
+        <Data name="courierNeed"><value>${loc.courierNeed}</value></Data>
+        <Data name="radiusKm"><value>${radii[loc.id]}</value></Data>${unit === 'mi' ? `
+        <Data name="radiusMiles"><value>${roundTo(toUnit(radii[loc.id], 'mi'), 2)}</value></Data>` : ''}${loc.notes ? `
+        <Data name="notes"><value>${escapeXml(loc.notes)}</value></Data>` : ''}${loc.tags ? `
+        <Data name="tags"><value>${escapeXml(formatTags(loc.tags))}</value></Data>` : ''}
+      </ExtendedData>
+      <MultiGeometry>
+        <Point><coordinates>${roundCoord(loc.lng)},${roundCoord(loc.lat)},0</coordinates></Point>
+        <Polygon><outerBoundaryIs><LinearRing><coordinates>${ring}</coordinates></LinearRing></outerBoundaryIs></Polygon>
+      </MultiGeometry>
+    </Placemark>`;
+    });
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>Courier Hotspot Campaign Plan</name>
+    <Style id="coverage">
+      <LineStyle><color>ff000000</color><width>1</width></LineStyle>
+      <PolyStyle><color>4cf6823b</color></PolyStyle>
+    </Style>
+${placemarks.join('\n')}
+  </Document>
+</kml>
+`;
+};
+
+// Flat layout accepted by the Meta and Google Ads location-targeting bulk uploaders, with the radius in the chosen unit.
+// A trailing tags column is only added when some hotspot is tagged, so untagged plans keep the plain layout.
+export const buildPlanCsv = (locations: LocationData[], radii: Radii, unit: DistanceUnit = 'km') => {
+    const withTags = locations.some(loc => loc.tags);
+    const rows = locations.map(loc =>
+        [loc.city, roundCoord(loc.lat), roundCoord(loc.lng), roundTo(toUnit(radii[loc.id], unit), 2), ...(withTags ? [formatTags(loc.tags)] : [])]
+            .map(escapeCsvCell).join(',')
+    );
+    return [`city,lat,lng,radius_${unit}${withTags ? ',tags' : ''}`, ...rows].join('\n') + '\n';
+};
+
+// One row per hotspot and postcode district whose centroid lies inside its radius, for postcode-targeted buying
+export const buildOutcodeCsv = (locations: LocationData[], radii: Radii, unit: DistanceUnit = 'km') => {
+    const rows = locations.flatMap(loc =>
+        outcodesWithinRadius(loc, radii[loc.id]).map(({ outcode, distanceKm }) =>
+            [loc.city, outcode, toUnit(distanceKm, unit).toFixed(1)].map(escapeCsvCell).join(',')
+        )
+    );
+    return [`city,outcode,distance_${unit}`, ...rows].join('\n') + '\n';
+};
+
+type PlanBuilder = (locations: LocationData[], radii: Radii, zones: Zone[], unit: DistanceUnit) => string;
+
+const EXPORTERS: { [format in ExportFormat]: { build: PlanBuilder; extension: string; mimeType: string } } = {
+    geojson: { build: buildPlanGeoJson, extension: 'geojson', mimeType: 'application/geo+json' },
+    kml: { build: buildPlanKml, extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+    csv: { build: (locations, radii, _zones, unit) => buildPlanCsv(locations, radii, unit), extension: 'csv', mimeType: 'text/csv' },
+    outcodes: { build: (locations, radii, _zones, unit) => buildOutcodeCsv(locations, radii, unit), extension: 'outcodes.csv', mimeType: 'text/csv' },
+    zones: { build: (locations, _radii, zones, unit) => buildZonesGeoJson(zones, locations, unit), extension: 'zones.geojson', mimeType: 'application/geo+json' },
+};
+
+export const exportPlan = (format: ExportFormat, locations: LocationData[], radii: Radii, zones: Zone[] = [], unit: DistanceUnit = 'km') => {
+    const { build, extension, mimeType } = EXPORTERS[format];
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(`campaign-plan-${date}.${extension}`, build(locations, radii, zones, unit), mimeType);
+};
@@ -0,0 +1,78 @@
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// Great-circle distance between two points in kilometres (haversine formula)
+export const distanceKm = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+    const dLat = toRadians(lat2 - lat1);
+    const dLng = toRadians(lng2 - lng1);
+    const a = Math.sin(dLat / 2) ** 2
+        + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+// Point reached by travelling distanceKm from a start point on the given bearing (degrees clockwise from north)
+export const destinationPoint = (lat: number, lng: number, distance: number, bearing: number): [number, number] => {
+    const angular = distance / EARTH_RADIUS_KM;
+    const theta = toRadians(bearing);
+    const phi1 = toRadians(lat);
+    const lambda1 = toRadians(lng);
+
+    const phi2 = Math.asin(Math.sin(phi1) * Math.cos(angular) + Math.cos(phi1) * Math.sin(angular) * Math.cos(theta));
+    const lambda2 = lambda1 + Math.atan2(
+        Math.sin(theta) * Math.sin(angular) * Math.cos(phi1),
+        Math.cos(angular) - Math.sin(phi1) * Math.sin(phi2)
+    );
+    return [toDegrees(phi2), toDegrees(lambda2)];
+};
+
+// Approximates a circle as a closed ring of [lng, lat] positions (GeoJSON order)
+export const circleRing = (lat: number, lng: number, radiusKm: number, steps = 64): [number, number][] => {
+    const ring: [number, number][] = [];
+    for (let i = 0; i < steps; i++) {
+        const [pointLat, pointLng] = destinationPoint(lat, lng, radiusKm, (360 * i) / steps);
+        ring.push([pointLng, pointLat]);
+    }
+    ring.push(ring[0]);
+    return ring;
+};
+
+// Length of the legs of a path of [lat, lng] points; a closed path adds the leg back to the start
+export const legLengthsKm = (points: [number, number][], closed = false): number[] => {
+    const legs = points.slice(1).map(([lat, lng], i) => distanceKm(points[i][0], points[i][1], lat, lng));
+    if (closed && points.length > 2) {
+        const [firstLat, firstLng] = points[0];
+        const [lastLat, lastLng] = points[points.length - 1];
+        legs.push(distanceKm(lastLat, lastLng, firstLat, firstLng));
+    }
+    return legs;
+};
+
+export const circleAreaKm2 = (radiusKm: number) => Math.PI * radiusKm * radiusKm;
+
+// Area of a polygon given as [lat, lng] vertices, on a local equirectangular projection (fine at town/county scale)
+export const polygonAreaKm2 = (points: [number, number][]): number => {
+    if (points.length < 3) return 0;
+    const meanLat = points.reduce((sum, [lat]) => sum + lat, 0) / points.length;
+    const kmPerDegLat = (Math.PI * EARTH_RADIUS_KM) / 180;
+    const kmPerDegLng = kmPerDegLat * Math.cos(toRadians(meanLat));
+    const twiceArea = points.reduce((sum, [lat, lng], i) => {
+        const [nextLat, nextLng] = points[(i + 1) % points.length];
+        return sum + lng * kmPerDegLng * nextLat * kmPerDegLat - nextLng * kmPerDegLng * lat * kmPerDegLat;
+    }, 0);
+    return Math.abs(twiceArea) / 2;
+};
+
+// Ray-casting test for a point inside a polygon of [lat, lng] vertices
+export const pointInPolygon = (lat: number, lng: number, points: [number, number][]): boolean => {
+    let inside = false;
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const [latI, lngI] = points[i];
+        const [latJ, lngJ] = points[j];
+        if ((latI > lat) !== (latJ > lat) && lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
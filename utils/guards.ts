@@ -0,0 +1,5 @@
+// Narrowing for untrusted input: saved state, share links, imported files and messages from an embedding page
+export type UnknownRecord = { [key: string]: unknown };
+
+export const isRecord = (value: unknown): value is UnknownRecord =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
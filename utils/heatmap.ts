@@ -0,0 +1,44 @@
+import type { HeatmapSettings, HeatNormalisation, LocationData } from '../types';
+
+export const DEFAULT_HEATMAP_SETTINGS: HeatmapSettings = {
+    radius: 25,
+    blur: 15,
+    normalisation: 'relative',
+    gradient: 'classic',
+};
+
+export const HEAT_NORMALISATIONS: { value: HeatNormalisation; label: string; hint: string }[] = [
+    { value: 'absolute', label: 'Absolute', hint: 'Scaled to the largest need in the whole dataset' },
+    { value: 'log', label: 'Logarithmic', hint: 'Log scale, so small hotspots stay visible next to big ones' },
+    { value: 'relative', label: 'Relative to visible', hint: 'Scaled to the largest need among the listed hotspots' },
+];
+
+export const GRADIENT_PRESETS: { [name: string]: { label: string; stops: { [stop: number]: string } } } = {
+    classic: { label: 'Classic', stops: { 0.1: 'blue', 0.3: 'lime', 0.5: 'yellow', 1: 'red' } },
+    fire: { label: 'Fire', stops: { 0.1: '#ffffb2', 0.4: '#fd8d3c', 0.7: '#f03b20', 1: '#bd0026' } },
+    viridis: { label: 'Viridis', stops: { 0.1: '#440154', 0.4: '#31688e', 0.7: '#35b779', 1: '#fde725' } },
+    mono: { label: 'Monochrome', stops: { 0.1: '#dbeafe', 0.5: '#3b82f6', 1: '#1e3a8a' } },
+};
+
+export const gradientStops = (name: string) => (GRADIENT_PRESETS[name] ?? GRADIENT_PRESETS.classic).stops;
+
+// CSS linear-gradient matching a preset, for the legend swatch
+export const gradientCss = (name: string) => {
+    const stops = Object.entries(gradientStops(name))
+        .sort(([a], [b]) => Number(a) - Number(b))
+        .map(([stop, color]) => `${color} ${Number(stop) * 100}%`);
+    return `linear-gradient(to right, ${stops.join(', ')})`;
+};
+
+// Heat points with intensities normalised to 0..1, so the layer can use max: 1 and nothing saturates
+// unless it really is the peak. `visible` is what gets drawn; `all` sets the scale for absolute and log modes.
+export const buildHeatPoints = (visible: LocationData[], all: LocationData[], normalisation: HeatNormalisation): [number, number, number][] => {
+    const scaleSource = normalisation === 'relative' ? visible : all;
+    const maxNeed = Math.max(0, ...scaleSource.map(loc => loc.courierNeed));
+    if (maxNeed === 0) return visible.map(loc => [loc.lat, loc.lng, 0]);
+
+    const intensity = normalisation === 'log'
+        ? (need: number) => Math.log1p(need) / Math.log1p(maxNeed)
+        : (need: number) => need / maxNeed;
+    return visible.map(loc => [loc.lat, loc.lng, intensity(loc.courierNeed)]);
+};
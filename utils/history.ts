@@ -0,0 +1,180 @@
+import type { ImportIssue, LocationData, NeedPoint, NeedTrend } from '../types';
+import { RISING_WINDOW_WEEKS } from '../constants';
+import { resolveField, splitCsv } from './importData';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Header aliases for weekly need files (compared lower-cased, without spaces/underscores)
+const HISTORY_ALIASES: { [field: string]: string[] } = {
+    id: ['id'],
+    city: ['city', 'town', 'name', 'location'],
+    week: ['week', 'date', 'weekstart', 'weekcommencing', 'weekbeginning'],
+    need: ['courierneed', 'need', 'demand', 'signups'],
+};
+
+export interface HistoryRecord {
+    row: number;
+    id?: number;
+    city?: string;
+    date: string;
+    need: number;
+}
+
+const resolveHistoryField = resolveField(HISTORY_ALIASES);
+
+// Normalises YYYY-MM-DD or DD/MM/YYYY to the Monday of that week, or null if the text isn't a real date
+export const weekStart = (text: string): string | null => {
+    const trimmed = text.trim();
+    const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(trimmed);
+    const uk = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(trimmed);
+    const [year, month, day] = iso ? [iso[1], iso[2], iso[3]].map(Number)
+        : uk ? [uk[3], uk[2], uk[1]].map(Number)
+        : [NaN, NaN, NaN];
+
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (Number.isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+    return date.toISOString().slice(0, 10);
+};
+
+// Reads weekly need in long form (one row per hotspot and week) or wide form (one row per hotspot, one column per week)
+export const parseHistoryCsv = (text: string): { records: HistoryRecord[]; issues: ImportIssue[] } => {
+    const rows = splitCsv(text.replace(/^\uFEFF/, ''));
+    if (rows.length === 0) {
+        throw new Error('The CSV file is empty.');
+    }
+
+    const header = rows[0];
+    const fields = header.map(resolveHistoryField);
+    if (!fields.includes('id') && !fields.includes('city')) {
+        throw new Error('The CSV header needs an id or city column to match hotspots.');
+    }
+    const isLong = fields.includes('week') && fields.includes('need');
+    const weekColumns = isLong ? [] : header
+        .map((cell, column) => ({ column, date: fields[column] ? null : weekStart(cell) }))
+        .filter((entry): entry is { column: number; date: string } => entry.date !== null);
+    if (!isLong && weekColumns.length === 0) {
+        throw new Error('The CSV needs week and need columns, or one column per week headed with its date.');
+    }
+
+    const records: HistoryRecord[] = [];
+    const issues: ImportIssue[] = [];
+    rows.slice(1).forEach((cells, index) => {
+        const row = index + 2;
+        if (!cells.some(cell => cell.trim() !== '')) return;
+
+        const cellFor = (field: string) => (cells[fields.indexOf(field)] ?? '').trim();
+        const idText = fields.includes('id') ? cellFor('id') : '';
+        const id = idText !== '' && Number.isInteger(Number(idText)) ? Number(idText) : undefined;
+        const city = fields.includes('city') ? cellFor('city') || undefined : undefined;
+        const report = (message: string) => issues.push({ row, city, severity: 'error', message });
+
+        if (id === undefined && !city) {
+            report('Missing id and city.');
+            return;
+        }
+
+        const entries = isLong
+            ? [{ dateText: cellFor('week'), date: weekStart(cellFor('week')), needText: cellFor('need') }]
+            : weekColumns.map(({ column, date }) => ({ dateText: header[column], date, needText: (cells[column] ?? '').trim() }))
+                .filter(entry => entry.needText !== '');
+
+        entries.forEach(({ dateText, date, needText }) => {
+            const need = Number(needText);
+            if (!date) {
+                report(`"${dateText}" is not a date (use YYYY-MM-DD or DD/MM/YYYY).`);
+            } else if (needText === '' || !Number.isFinite(need) || need < 0) {
+                report(`Need "${needText}" for week ${date} is not a non-negative number.`);
+            } else {
+                records.push({ row, id, city, date, need });
+            }
+        });
+    });
+
+    return { records, issues };
+};
+
+// Adds imported weeks to matching hotspots (by id, then city name); a week already present is overwritten
+export const mergeHistory = (locations: LocationData[], records: HistoryRecord[]): { locations: LocationData[]; issues: ImportIssue[]; matched: number } => {
+    const issues: ImportIssue[] = [];
+    let matched = 0;
+    const series = new Map<number, Map<string, number>>();
+
+    records.forEach(record => {
+        const match = (record.id !== undefined && locations.find(loc => loc.id === record.id))
+            || (record.city !== undefined && locations.find(loc => loc.city.toLowerCase() === record.city?.toLowerCase()));
+        if (!match) {
+            issues.push({ row: record.row, city: record.city, severity: 'error', message: 'No hotspot matches this id or city.' });
+            return;
+        }
+        if (!series.has(match.id)) {
+            series.set(match.id, new Map((match.history ?? []).map(point => [point.date, point.need])));
+        }
+        (series.get(match.id) as Map<string, number>).set(record.date, record.need);
+        matched++;
+    });
+
+    return {
+        locations: locations.map(loc => {
+            const weeks = series.get(loc.id);
+            if (!weeks) return loc;
+            const history: NeedPoint[] = [...weeks.entries()]
+                .map(([date, need]) => ({ date, need }))
+                .sort((a, b) => a.date.localeCompare(b.date));
+            return { ...loc, history };
+        }),
+        issues: [...new Map(issues.map(issue => [`${issue.row}:${issue.message}`, issue])).values()],
+        matched,
+    };
+};
+
+// Every week present in any hotspot's history, oldest first
+export const historyDates = (locations: LocationData[]): string[] =>
+    [...new Set(locations.flatMap(loc => (loc.history ?? []).map(point => point.date)))].sort();
+
+const pointsUpTo = (loc: LocationData, date: string | null) =>
+    (loc.history ?? []).filter(point => date === null || point.date <= date);
+
+// Need in the given week: the latest value on or before it. Hotspots without history keep their snapshot need.
+export const needAt = (loc: LocationData, date: string): number => {
+    if (!loc.history || loc.history.length === 0) return loc.courierNeed;
+    const points = pointsUpTo(loc, date);
+    return points.length > 0 ? points[points.length - 1].need : 0;
+};
+
+// The dataset as it stood in the given week, or unchanged when no week is selected
+export const applyTimeline = (locations: LocationData[], date: string | null): LocationData[] =>
+    date === null ? locations : locations.map(loc => (loc.history?.length ? { ...loc, courierNeed: needAt(loc, date) } : loc));
+
+// Least-squares slope of need against time, in sign-ups per week
+const weeklySlope = (points: NeedPoint[]) => {
+    if (points.length < 2) return 0;
+    const origin = Date.parse(points[0].date);
+    const xs = points.map(point => (Date.parse(point.date) - origin) / (7 * DAY_MS));
+    const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+    const meanY = points.reduce((sum, point) => sum + point.need, 0) / points.length;
+    const covariance = xs.reduce((sum, x, i) => sum + (x - meanX) * (points[i].need - meanY), 0);
+    const variance = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+    return variance > 0 ? covariance / variance : 0;
+};
+
+export const needTrend = (loc: LocationData, date: string | null): NeedTrend | null => {
+    const points = pointsUpTo(loc, date);
+    if (points.length === 0) return null;
+    const current = points[points.length - 1].need;
+    const previous = points.length > 1 ? points[points.length - 2].need : null;
+    return {
+        current,
+        previous,
+        change: previous === null ? null : current - previous,
+        slope: weeklySlope(points.slice(-RISING_WINDOW_WEEKS)),
+    };
+};
+
+// Hotspots whose need has risen fastest over the recent window, steepest first
+export const risingHotspots = (locations: LocationData[], date: string | null, count: number) =>
+    locations
+        .map(location => ({ location, trend: needTrend(location, date) }))
+        .filter((entry): entry is { location: LocationData; trend: NeedTrend } => entry.trend !== null && entry.trend.slope > 0)
+        .sort((a, b) => b.trend.slope - a.trend.slope)
+        .slice(0, count);
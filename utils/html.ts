@@ -0,0 +1,10 @@
+const HTML_ESCAPES: { [char: string]: string } = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;',
+};
+
+// Escapes text before it is interpolated into Leaflet HTML strings (icons, popups), since city names can now come from imported files
+export const escapeHtml = (text: string) => text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
@@ -0,0 +1,271 @@
+import type { ImportedLocation, ImportIssue, ImportMode, LocationData } from '../types';
+import { UK_BOUNDS } from '../constants';
+import { isRecord } from './guards';
+import { parseTags } from './tags';
+
+// Header aliases accepted for each LocationData field (compared lower-cased, without spaces/underscores)
+const FIELD_ALIASES: { [field: string]: string[] } = {
+    id: ['id'],
+    city: ['city', 'town', 'name', 'location'],
+    region: ['region', 'area'],
+    lat: ['lat', 'latitude'],
+    lng: ['lng', 'lon', 'long', 'longitude'],
+    courierNeed: ['courierneed', 'need', 'demand', 'signups'],
+    notes: ['notes', 'note', 'comments'],
+    tags: ['tags', 'tag', 'labels'],
+};
+
+export interface RawLocationRecord {
+    row: number;
+    values: { [field: string]: string | undefined };
+}
+
+const normaliseHeader = (header: string) => header.trim().toLowerCase().replace(/[\s_-]/g, '');
+
+// Builds a lookup from a column header to the field it names, for any table of header aliases.
+// Shared by the hotspot, weekly need and applicant importers so they all accept headers the same way.
+export const resolveField = (aliases: { [field: string]: string[] }) => (header: string): string | undefined => {
+    const key = normaliseHeader(header);
+    return Object.keys(aliases).find(field => aliases[field].includes(key));
+};
+
+const resolveLocationField = resolveField(FIELD_ALIASES);
+
+// Splits CSV text into rows of cells, honouring double-quoted cells with embedded commas, quotes and newlines
+export const splitCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell !== '' || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows;
+};
+
+export const parseCsv = (text: string): RawLocationRecord[] => {
+    const rows = splitCsv(text.replace(/^\uFEFF/, ''));
+    if (rows.length === 0) {
+        throw new Error('The CSV file is empty.');
+    }
+
+    const fields = rows[0].map(resolveLocationField);
+    const missing = ['city', 'lat', 'lng'].filter(field => !fields.includes(field));
+    if (missing.length > 0) {
+        throw new Error(`The CSV header is missing required column(s): ${missing.join(', ')}.`);
+    }
+
+    return rows.slice(1)
+        .map((cells, index) => ({ cells, row: index + 2 }))
+        .filter(({ cells }) => cells.some(cell => cell.trim() !== ''))
+        .map(({ cells, row }) => {
+            const values: RawLocationRecord['values'] = {};
+            fields.forEach((field, column) => {
+                if (field) values[field] = cells[column];
+            });
+            return { row, values };
+        });
+};
+
+export const parseGeoJson = (text: string): RawLocationRecord[] => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+
+    const features: unknown = !isRecord(data) ? []
+        : data.type === 'FeatureCollection' ? data.features
+        : data.type === 'Feature' ? [data]
+        : [];
+    if (!Array.isArray(features) || features.length === 0) {
+        throw new Error('The GeoJSON file contains no features.');
+    }
+
+    return features.map((feature: unknown, index) => {
+        const values: RawLocationRecord['values'] = {};
+        const properties = isRecord(feature) && isRecord(feature.properties) ? feature.properties : {};
+        const geometry = isRecord(feature) && isRecord(feature.geometry) ? feature.geometry : null;
+        Object.entries(properties).forEach(([key, value]) => {
+            const field = resolveLocationField(key);
+            if (field && field !== 'lat' && field !== 'lng' && value !== null && value !== undefined) {
+                values[field] = String(value);
+            }
+        });
+        if (geometry?.type === 'Point' && Array.isArray(geometry.coordinates)) {
+            const [lng, lat]: unknown[] = geometry.coordinates;
+            values.lng = lng === undefined ? undefined : String(lng);
+            values.lat = lat === undefined ? undefined : String(lat);
+        } else {
+            values.geometry = typeof geometry?.type === 'string' ? geometry.type : 'none';
+        }
+        return { row: index + 1, values };
+    });
+};
+
+// Plain objects with the same columns as a CSV (e.g. rows posted by an embedding page), keyed by any accepted alias
+export const parseRecords = (rows: unknown[]): RawLocationRecord[] =>
+    rows.map((row, index) => {
+        const values: RawLocationRecord['values'] = {};
+        Object.entries(row && typeof row === 'object' ? row : {}).forEach(([key, value]) => {
+            const field = resolveLocationField(key);
+            if (field && value !== null && value !== undefined) values[field] = String(value);
+        });
+        return { row: index + 1, values };
+    });
+
+// Parses a file's text as CSV or GeoJSON, choosing by extension and falling back to sniffing the content
+export const parseLocationFile = (fileName: string, text: string): RawLocationRecord[] => {
+    const isJson = /\.(geo)?json$/i.test(fileName) || (!/\.csv$/i.test(fileName) && text.trim().startsWith('{'));
+    return isJson ? parseGeoJson(text) : parseCsv(text);
+};
+
+export const isValidCoordinate = (lat: number, lng: number) =>
+    Number.isFinite(lat) && Number.isFinite(lng)
+    && lat >= UK_BOUNDS.south && lat <= UK_BOUNDS.north
+    && lng >= UK_BOUNDS.west && lng <= UK_BOUNDS.east;
+
+// Converts raw records into typed locations; rows that cannot be placed on the map are dropped and reported as errors
+export const buildLocations = (records: RawLocationRecord[]): { locations: ImportedLocation[]; issues: ImportIssue[] } => {
+    const locations: ImportedLocation[] = [];
+    const issues: ImportIssue[] = [];
+
+    records.forEach(({ row, values }) => {
+        const city = (values.city ?? '').trim();
+        const report = (severity: ImportIssue['severity'], message: string) =>
+            issues.push({ row, city: city || undefined, severity, message });
+
+        if (values.geometry) {
+            report('error', `Unsupported geometry "${values.geometry}" (only Point features are imported).`);
+            return;
+        }
+        if (!city) {
+            report('error', 'Missing city name.');
+            return;
+        }
+
+        const lat = parseFloat(values.lat ?? '');
+        const lng = parseFloat(values.lng ?? '');
+        if (!isValidCoordinate(lat, lng)) {
+            report('error', `Bad coordinates (${values.lat ?? '?'}, ${values.lng ?? '?'}) - outside the UK or not a number.`);
+            return;
+        }
+
+        const needText = (values.courierNeed ?? '').trim();
+        const courierNeed = needText === '' ? 0 : Number(needText);
+        if (!Number.isFinite(courierNeed) || courierNeed < 0) {
+            report('error', `Courier need "${needText}" is not a non-negative number.`);
+            return;
+        }
+
+        const idText = (values.id ?? '').trim();
+        const id = idText === '' ? undefined : Number(idText);
+        if (id !== undefined && !Number.isInteger(id)) {
+            report('warning', `Id "${idText}" is not an integer; a new id will be assigned.`);
+        }
+
+        const notes = (values.notes ?? '').trim();
+        const tags = parseTags(values.tags ?? '');
+        locations.push({
+            id: id !== undefined && Number.isInteger(id) ? id : undefined,
+            city,
+            region: (values.region ?? '').trim(),
+            lat,
+            lng,
+            courierNeed,
+            ...(notes ? { notes } : {}),
+            ...(tags.length > 0 ? { tags } : {}),
+            sourceRow: row,
+        });
+    });
+
+    return { locations, issues };
+};
+
+// Dataset-level checks that apply equally to imported files and the live dataset
+export const validateLocations = (locations: (LocationData | ImportedLocation)[]): ImportIssue[] => {
+    const issues: ImportIssue[] = [];
+    const seenIds = new Map<number, number>();
+    const seenCities = new Map<string, number>();
+
+    locations.forEach((loc, index) => {
+        const row = 'sourceRow' in loc ? loc.sourceRow : index + 1;
+        const report = (severity: ImportIssue['severity'], message: string) =>
+            issues.push({ row, city: loc.city, severity, message });
+
+        if (loc.id !== undefined) {
+            const firstRow = seenIds.get(loc.id);
+            if (firstRow !== undefined) {
+                report('warning', `Duplicate id ${loc.id} (first used on row ${firstRow}).`);
+            } else {
+                seenIds.set(loc.id, row);
+            }
+        }
+
+        const cityKey = loc.city.trim().toLowerCase();
+        const firstCityRow = seenCities.get(cityKey);
+        if (firstCityRow !== undefined) {
+            report('warning', `Duplicate city (first used on row ${firstCityRow}).`);
+        } else {
+            seenCities.set(cityKey, row);
+        }
+
+        if (!loc.region.trim()) report('warning', 'Empty region.');
+        if (loc.courierNeed === 0) report('warning', 'Courier need is 0 or empty.');
+        if (!isValidCoordinate(loc.lat, loc.lng)) report('error', 'Coordinates are outside the UK.');
+    });
+
+    return issues;
+};
+
+// Replaces or merges imported rows into the dataset. Merging matches on id first, then on city name.
+export const applyImport = (existing: LocationData[], incoming: ImportedLocation[], mode: ImportMode): LocationData[] => {
+    const result = mode === 'merge' ? existing.map(loc => ({ ...loc })) : [];
+    const usedIds = new Set(result.map(loc => loc.id));
+    let nextId = Math.max(0, ...existing.map(loc => loc.id), ...incoming.map(loc => loc.id ?? 0)) + 1;
+
+    incoming.forEach(({ id, sourceRow, ...fields }) => {
+        if (mode === 'merge') {
+            const match = (id !== undefined && result.find(loc => loc.id === id))
+                || result.find(loc => loc.city.toLowerCase() === fields.city.toLowerCase());
+            if (match) {
+                Object.assign(match, fields);
+                return;
+            }
+        }
+        const newId = id !== undefined && !usedIds.has(id) ? id : nextId++;
+        usedIds.add(newId);
+        result.push({ id: newId, ...fields });
+    });
+
+    return result;
+};
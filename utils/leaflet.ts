@@ -0,0 +1,12 @@
+// Leaflet with the plugins the maps use. The plugins extend the global L that Leaflet sets up, so they are
+// imported after it; import L from here rather than from 'leaflet' so the plugins are always loaded.
+import L from 'leaflet';
+import 'leaflet.markercluster';
+import 'leaflet.heat';
+import 'leaflet-draw';
+import 'leaflet/dist/leaflet.css';
+import 'leaflet.markercluster/dist/MarkerCluster.css';
+import 'leaflet.markercluster/dist/MarkerCluster.Default.css';
+import 'leaflet-draw/dist/leaflet.draw.css';
+
+export default L;
@@ -0,0 +1,199 @@
+import type { LocationData, MarkerStyle, NeedClass, Radii, SymbologySettings, Zone } from '../types';
+import { DEFAULT_RADIUS_KM } from '../constants';
+import { circleRing } from './geo';
+import L from './leaflet';
+
+export interface SnapshotContent {
+    locations: LocationData[];
+    radii: Radii;
+    zones: Zone[];
+    replacements: Map<number, Zone>;
+    // One entry per location, as App computes for the live markers
+    markerStyles: { [key: number]: MarkerStyle };
+    showLabels: boolean;
+    needClasses: NeedClass[];
+    encoding: SymbologySettings['encoding'];
+}
+
+const TILE_SIZE = 256;
+const FONT = '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+
+const loadImage = (url: string) => new Promise<HTMLImageElement | null>(resolve => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => resolve(null);
+    image.src = url;
+});
+
+// Draws the basemap tiles covering the map's current view and returns how many loaded. Missing tiles are left blank.
+const drawTiles = async (ctx: CanvasRenderingContext2D, map: L.Map, tileLayer: L.TileLayer): Promise<number> => {
+    const zoom = map.getZoom();
+    const { x: width, y: height } = map.getSize();
+    const origin = map.project(map.containerPointToLatLng([0, 0]), zoom).round();
+    const tileCount = 2 ** zoom;
+    const jobs: Promise<boolean>[] = [];
+    for (let tx = Math.floor(origin.x / TILE_SIZE); tx * TILE_SIZE < origin.x + width; tx++) {
+        for (let ty = Math.floor(origin.y / TILE_SIZE); ty * TILE_SIZE < origin.y + height; ty++) {
+            if (ty < 0 || ty >= tileCount) continue;
+            const coords = Object.assign(L.point(((tx % tileCount) + tileCount) % tileCount, ty), { z: zoom });
+            jobs.push(loadImage(tileLayer.getTileUrl(coords)).then(image => {
+                if (image) ctx.drawImage(image, tx * TILE_SIZE - origin.x, ty * TILE_SIZE - origin.y, TILE_SIZE, TILE_SIZE);
+                return image !== null;
+            }));
+        }
+    }
+    return (await Promise.all(jobs)).filter(Boolean).length;
+};
+
+const tracePolygon = (ctx: CanvasRenderingContext2D, map: L.Map, points: [number, number][]) => {
+    ctx.beginPath();
+    points.forEach(([lat, lng], i) => {
+        const { x, y } = map.latLngToContainerPoint([lat, lng]);
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+    });
+    ctx.closePath();
+};
+
+const drawOverlays = (ctx: CanvasRenderingContext2D, map: L.Map, content: SnapshotContent) => {
+    const { locations, radii, zones, replacements, markerStyles, showLabels } = content;
+
+    zones.filter(zone => !zone.replacesCircle).forEach(zone => {
+        tracePolygon(ctx, map, zone.points);
+        ctx.fillStyle = 'rgba(124, 58, 237, 0.1)';
+        ctx.fill();
+        ctx.setLineDash([6, 4]);
+        ctx.strokeStyle = '#7c3aed';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+        ctx.setLineDash([]);
+    });
+
+    locations.forEach(loc => {
+        const zone = replacements.get(loc.id);
+        const outline = zone
+            ? zone.points
+            : circleRing(loc.lat, loc.lng, radii[loc.id] ?? DEFAULT_RADIUS_KM, 96).map(([lng, lat]): [number, number] => [lat, lng]);
+        tracePolygon(ctx, map, outline);
+        ctx.fillStyle = 'rgba(59, 130, 246, 0.3)';
+        ctx.fill();
+        ctx.strokeStyle = '#000';
+        ctx.lineWidth = 1;
+        ctx.stroke();
+    });
+
+    ctx.font = `600 12px ${FONT}`;
+    ctx.textBaseline = 'middle';
+    locations.forEach(loc => {
+        const style = markerStyles[loc.id];
+        if (!style) return;
+        const { x, y } = map.latLngToContainerPoint([loc.lat, loc.lng]);
+        ctx.beginPath();
+        ctx.arc(x, y, style.size / 2 + 2, 0, 2 * Math.PI);
+        ctx.fillStyle = '#fff';
+        ctx.fill();
+        ctx.beginPath();
+        ctx.arc(x, y, style.size / 2, 0, 2 * Math.PI);
+        ctx.fillStyle = style.color;
+        ctx.fill();
+
+        if (!showLabels) return;
+        const labelX = x + style.size / 2 + 6;
+        const textWidth = ctx.measureText(loc.city).width;
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.95)';
+        ctx.fillRect(labelX, y - 10, textWidth + 12, 20);
+        ctx.fillStyle = '#1f2937';
+        ctx.fillText(loc.city, labelX + 6, y);
+    });
+};
+
+// Mirrors the on-screen legend: need classes (or the plain hotspot dot) and the coverage swatch
+const drawLegend = (ctx: CanvasRenderingContext2D, height: number, { needClasses, encoding }: SnapshotContent) => {
+    const rows = needClasses.length > 0 ? needClasses.length : 1;
+    const boxHeight = 58 + rows * 20 + (needClasses.length > 0 ? 18 : 0);
+    const left = 10;
+    const top = height - boxHeight - 10;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.95)';
+    ctx.fillRect(left, top, 190, boxHeight);
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = '#1f2937';
+    ctx.font = `bold 14px ${FONT}`;
+    ctx.fillText('Legend', left + 10, top + 16);
+
+    let y = top + 38;
+    ctx.font = `13px ${FONT}`;
+    if (needClasses.length > 0) {
+        ctx.font = `600 12px ${FONT}`;
+        ctx.fillText('Courier Need (sign-ups)', left + 10, y);
+        ctx.font = `13px ${FONT}`;
+        y += 18;
+    }
+    const entries = needClasses.length > 0
+        ? needClasses.map((needClass, i) => ({
+            size: encoding === 'size' || encoding === 'both' ? needClass.size : 12,
+            color: encoding === 'colour' || encoding === 'both' ? needClass.color : '#dc2626',
+            label: `${i === 0 ? '' : '> '}${needClass.min} – ${needClass.max}`,
+        }))
+        : [{ size: 12, color: '#dc2626', label: 'Courier Hotspot' }];
+    entries.forEach(({ size, color, label }) => {
+        ctx.beginPath();
+        ctx.arc(left + 24, y, size / 2, 0, 2 * Math.PI);
+        ctx.fillStyle = color;
+        ctx.fill();
+        ctx.fillStyle = '#374151';
+        ctx.fillText(label, left + 44, y);
+        y += 20;
+    });
+
+    ctx.beginPath();
+    ctx.arc(left + 24, y, 8, 0, 2 * Math.PI);
+    ctx.fillStyle = 'rgba(59, 130, 246, 0.3)';
+    ctx.fill();
+    ctx.strokeStyle = '#000';
+    ctx.lineWidth = 1;
+    ctx.stroke();
+    ctx.fillStyle = '#374151';
+    ctx.fillText('Coverage Radius', left + 44, y);
+};
+
+// The tile layer's attribution is HTML (links, &copy;), so it goes through the DOM to get plain text
+const drawAttribution = (ctx: CanvasRenderingContext2D, width: number, height: number, tileLayer: L.TileLayer) => {
+    const element = document.createElement('div');
+    element.innerHTML = tileLayer.getAttribution?.() ?? '';
+    const attribution = element.textContent ?? '';
+    if (!attribution) return;
+    ctx.font = `11px ${FONT}`;
+    ctx.textBaseline = 'middle';
+    const textWidth = ctx.measureText(attribution).width;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+    ctx.fillRect(width - textWidth - 10, height - 16, textWidth + 10, 16);
+    ctx.fillStyle = '#374151';
+    ctx.fillText(attribution, width - textWidth - 5, height - 8);
+};
+
+// Renders the live map's view (basemap, zones, circles, markers, labels and legend) to a PNG data URL.
+// Tiles from a server that doesn't allow cross-origin reads fail to load (or taint the canvas, in which case the
+// snapshot is redrawn without them), so hasBasemap tells the report whether the background made it in.
+export const renderMapSnapshot = async (map: L.Map, tileLayer: L.TileLayer, content: SnapshotContent): Promise<{ url: string; hasBasemap: boolean }> => {
+    const { x: width, y: height } = map.getSize();
+    const render = async (withTiles: boolean) => {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+        ctx.fillStyle = '#e5e7eb';
+        ctx.fillRect(0, 0, width, height);
+        const tilesDrawn = withTiles ? await drawTiles(ctx, map, tileLayer) : 0;
+        drawOverlays(ctx, map, content);
+        drawLegend(ctx, height, content);
+        if (tilesDrawn > 0) drawAttribution(ctx, width, height, tileLayer);
+        return { url: canvas.toDataURL('image/png'), hasBasemap: tilesDrawn > 0 };
+    };
+
+    try {
+        return await render(true);
+    } catch {
+        return render(false);
+    }
+};
@@ -0,0 +1,204 @@
+import type { MapView, PersistedMapState, Radii, Zone } from '../types';
+import { DEFAULT_MAP_VIEW, DEFAULT_RADIUS_KM, MAX_RADIUS_KM, MIN_RADIUS_KM } from '../constants';
+import { isRecord, type UnknownRecord } from './guards';
+import { loadZones, sanitizeZones } from './zones';
+
+const STORAGE_KEY = 'uk-courier-hotspots:state';
+const STATE_VERSION = '1';
+// Version 2 links carry the zones; version 1 links have none and leave the saved zones alone
+const LINK_VERSION = '2';
+const LEGACY_LINK_VERSION = '1';
+
+export const DEFAULT_MAP_STATE: PersistedMapState = {
+    radii: {},
+    isSynced: false,
+    uniformRadius: DEFAULT_RADIUS_KM,
+    showLabels: true,
+    showHeatmap: false,
+    isClusteringEnabled: true,
+    searchTerm: '',
+    view: DEFAULT_MAP_VIEW,
+    selectedId: null,
+    zones: [],
+};
+
+// Single-letter flags used in share links; a flag present in `f` means the toggle is on
+const FLAG_KEYS: { [flag: string]: 'isSynced' | 'showLabels' | 'showHeatmap' | 'isClusteringEnabled' } = {
+    s: 'isSynced',
+    l: 'showLabels',
+    h: 'showHeatmap',
+    c: 'isClusteringEnabled',
+};
+
+const isValidRadius = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && value >= MIN_RADIUS_KM && value <= MAX_RADIUS_KM;
+
+const round = (value: number, decimals: number) => Number(value.toFixed(decimals));
+
+const sanitizeView = (view: unknown): MapView | undefined => {
+    if (!isRecord(view)) return undefined;
+    const lat = Number(view.lat);
+    const lng = Number(view.lng);
+    const zoom = Number(view.zoom);
+    if (Math.abs(lat) > 90 || Math.abs(lng) > 180 || !Number.isInteger(zoom) || zoom < 0 || zoom > 19) {
+        return undefined;
+    }
+    return Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng, zoom } : undefined;
+};
+
+// Keeps only the fields of an untrusted object (stored JSON, decoded link) that have the right shape
+export const sanitizeMapState = (raw: unknown): Partial<PersistedMapState> => {
+    if (!isRecord(raw)) return {};
+    const state: Partial<PersistedMapState> = {};
+
+    if (isRecord(raw.radii)) {
+        const radii: Radii = {};
+        Object.entries(raw.radii).forEach(([id, radius]) => {
+            if (/^\d+$/.test(id) && isValidRadius(radius)) radii[Number(id)] = radius;
+        });
+        state.radii = radii;
+    }
+    (['isSynced', 'showLabels', 'showHeatmap', 'isClusteringEnabled'] as const).forEach(key => {
+        const value = raw[key];
+        if (typeof value === 'boolean') state[key] = value;
+    });
+    if (isValidRadius(raw.uniformRadius)) state.uniformRadius = raw.uniformRadius;
+    if (typeof raw.searchTerm === 'string') state.searchTerm = raw.searchTerm.slice(0, 100);
+    const view = sanitizeView(raw.view);
+    if (view) state.view = view;
+    if (raw.selectedId === null) state.selectedId = null;
+    else if (typeof raw.selectedId === 'number' && Number.isInteger(raw.selectedId)) state.selectedId = raw.selectedId;
+    if (Array.isArray(raw.zones)) state.zones = sanitizeZones(raw.zones);
+
+    return state;
+};
+
+export const loadStoredMapState = (): Partial<PersistedMapState> => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+        // Zones used to be saved under a key of their own; sessions from then pick them up from there
+        return stored?.version === STATE_VERSION ? { zones: loadZones(), ...sanitizeMapState(stored.state) } : { zones: loadZones() };
+    } catch {
+        return {};
+    }
+};
+
+export const saveStoredMapState = (state: PersistedMapState) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STATE_VERSION, state }));
+    } catch {
+        // Storage may be full or disabled (private browsing); persistence is best-effort
+    }
+};
+
+// The most common radius becomes the link's base value so only the exceptions need listing
+const mostCommonRadius = (radii: Radii): number => {
+    const counts = new Map<number, number>();
+    Object.values(radii).forEach(radius => counts.set(radius, (counts.get(radius) ?? 0) + 1));
+    let best = DEFAULT_RADIUS_KM;
+    let bestCount = 0;
+    counts.forEach((count, radius) => {
+        if (count > bestCount) {
+            best = radius;
+            bestCount = count;
+        }
+    });
+    return best;
+};
+
+// Zones travel in links as [name, kind, points, locationId, replacesCircle] tuples, with 'r' or 'p' for the kind
+const encodeZones = (zones: Zone[]) => JSON.stringify(zones.map(zone => [
+    zone.name,
+    zone.kind === 'rectangle' ? 'r' : 'p',
+    zone.points.map(([lat, lng]) => [round(lat, 5), round(lng, 5)]),
+    zone.locationId,
+    zone.replacesCircle ? 1 : 0,
+]));
+
+// Turns link tuples back into zone objects for sanitizeZones to check; anything malformed decodes to no zones
+const decodeZones = (text: string): unknown[] => {
+    try {
+        const tuples: unknown = JSON.parse(text);
+        return Array.isArray(tuples) ? tuples.map((tuple: unknown, i) => Array.isArray(tuple) && {
+            id: `link-${i + 1}`,
+            name: tuple[0],
+            kind: tuple[1] === 'r' ? 'rectangle' : 'polygon',
+            points: tuple[2],
+            locationId: tuple[3],
+            replacesCircle: tuple[4] === 1,
+        }) : [];
+    } catch {
+        return [];
+    }
+};
+
+// Encodes state as a compact hash, e.g. #v=2&c=54.5,-2.5,6&f=lc&u=10&d=10&r=11:6,16:4&s=11
+export const encodeShareHash = (state: PersistedMapState): string => {
+    const params = new URLSearchParams();
+    params.set('v', LINK_VERSION);
+    params.set('c', [round(state.view.lat, 4), round(state.view.lng, 4), state.view.zoom].join(','));
+    params.set('f', Object.keys(FLAG_KEYS).filter(flag => state[FLAG_KEYS[flag]]).join(''));
+    params.set('u', String(state.uniformRadius));
+
+    const baseRadius = mostCommonRadius(state.radii);
+    params.set('d', String(baseRadius));
+    const overrides = Object.entries(state.radii)
+        .filter(([, radius]) => radius !== baseRadius)
+        .map(([id, radius]) => `${id}:${radius}`);
+    if (overrides.length > 0) params.set('r', overrides.join(','));
+
+    if (state.searchTerm) params.set('q', state.searchTerm);
+    if (state.selectedId !== null) params.set('s', String(state.selectedId));
+    if (state.zones.length > 0) params.set('z', encodeZones(state.zones));
+    // Commas and colons are legal in a fragment, so keep them readable
+    return `#${params.toString().replace(/%2C/g, ',').replace(/%3A/g, ':')}`;
+};
+
+// Decodes a share hash against the ids of the current dataset. Unknown versions decode to nothing and
+// individual malformed fields are dropped, so a bad link falls back to stored state or defaults.
+export const decodeShareHash = (hash: string, locationIds: number[]): Partial<PersistedMapState> => {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    const version = params.get('v');
+    if (version !== LINK_VERSION && version !== LEGACY_LINK_VERSION) return {};
+
+    const raw: UnknownRecord = {};
+    const [lat, lng, zoom] = (params.get('c') ?? '').split(',').map(Number);
+    raw.view = { lat, lng, zoom };
+
+    const flags = params.get('f');
+    if (flags !== null && /^[slhc]*$/.test(flags)) {
+        Object.entries(FLAG_KEYS).forEach(([flag, key]) => {
+            raw[key] = flags.includes(flag);
+        });
+    }
+    if (params.has('u')) raw.uniformRadius = Number(params.get('u'));
+
+    const baseRadius = Number(params.get('d'));
+    if (isValidRadius(baseRadius)) {
+        const radii: { [id: number]: number } = {};
+        locationIds.forEach(id => {
+            radii[id] = baseRadius;
+        });
+        (params.get('r') ?? '').split(',').filter(Boolean).forEach(entry => {
+            const [id, radius] = entry.split(':').map(Number);
+            if (locationIds.includes(id)) radii[id] = radius;
+        });
+        raw.radii = radii;
+    }
+
+    if (params.has('q')) raw.searchTerm = params.get('q');
+    if (params.has('s')) {
+        const selectedId = Number(params.get('s'));
+        raw.selectedId = locationIds.includes(selectedId) ? selectedId : null;
+    }
+    if (version === LINK_VERSION) raw.zones = decodeZones(params.get('z') ?? '[]');
+    return sanitizeMapState(raw);
+};
+
+// Share link first, then the last saved session, then defaults. An embedded map skips the saved session, which
+// belongs to whoever uses the full app in this browser.
+export const loadInitialMapState = (locationIds: number[], useStored = true): PersistedMapState => ({
+    ...DEFAULT_MAP_STATE,
+    ...(useStored ? loadStoredMapState() : {}),
+    ...decodeShareHash(window.location.hash, locationIds),
+});
@@ -0,0 +1,111 @@
+import type { LocationData, OptimiseResult, OptimiseSettings, PlanCoverage, Radii } from '../types';
+import { MAX_RADIUS_KM, MIN_RADIUS_KM } from '../constants';
+import { coverageStats, findOverlaps } from './coverage';
+import { distanceKm } from './geo';
+
+export const DEFAULT_OPTIMISE_SETTINGS: OptimiseSettings = {
+    mode: 'suggest',
+    minRadiusKm: 3,
+    maxRadiusKm: 25,
+    campaignCount: 10,
+};
+
+// Keeps the bounds inside the slider range and min <= max, so the optimisers can trust them
+export const normaliseBounds = ({ minRadiusKm, maxRadiusKm }: OptimiseSettings): [number, number] => {
+    const min = Math.min(MAX_RADIUS_KM, Math.max(MIN_RADIUS_KM, Math.round(minRadiusKm) || MIN_RADIUS_KM));
+    const max = Math.min(MAX_RADIUS_KM, Math.max(min, Math.round(maxRadiusKm) || min));
+    return [min, max];
+};
+
+const distanceMatrix = (locations: LocationData[]) =>
+    locations.map(a => locations.map(b => distanceKm(a.lat, a.lng, b.lat, b.lng)));
+
+export const planCoverage = (locations: LocationData[], radii: Radii, planIds: number[]): PlanCoverage => {
+    const plan = locations.filter(loc => planIds.includes(loc.id) && radii[loc.id] !== undefined);
+    const covered = locations.filter(loc =>
+        plan.some(site => distanceKm(site.lat, site.lng, loc.lat, loc.lng) <= radii[site.id]));
+    const pairs = findOverlaps(plan, radii);
+    return {
+        campaigns: plan.length,
+        coveredNeed: covered.reduce((sum, loc) => sum + loc.courierNeed, 0),
+        totalNeed: locations.reduce((sum, loc) => sum + loc.courierNeed, 0),
+        areaKm2: coverageStats(plan, radii, pairs).unionAreaKm2,
+        overlaps: pairs.length,
+    };
+};
+
+// A radius per hotspot: busier hotspots aim for larger circles (scaled by the square root of need, so area
+// tracks need), then every pair that would overlap splits the gap between them in proportion to those targets.
+// Radii are floored to whole km and kept within the bounds, so hotspots closer than twice the minimum still overlap.
+export const suggestRadii = (locations: LocationData[], settings: OptimiseSettings): Radii => {
+    const [min, max] = normaliseBounds(settings);
+    const maxNeed = Math.max(1, ...locations.map(loc => loc.courierNeed));
+    const targets = locations.map(loc => min + (max - min) * Math.sqrt(Math.max(0, loc.courierNeed) / maxNeed));
+    const distances = distanceMatrix(locations);
+
+    const radii: Radii = {};
+    locations.forEach((loc, i) => {
+        let radius = targets[i];
+        locations.forEach((_, j) => {
+            if (i !== j && distances[i][j] < targets[i] + targets[j]) {
+                radius = Math.min(radius, (distances[i][j] * targets[i]) / (targets[i] + targets[j]));
+            }
+        });
+        radii[loc.id] = Math.max(min, Math.floor(radius));
+    });
+    return radii;
+};
+
+// Greedy maximum coverage: repeatedly picks the hotspot and whole-km radius that reach the most need not yet
+// covered, without overlapping circles already picked. Ties go to the smaller radius.
+export const pickCampaigns = (locations: LocationData[], settings: OptimiseSettings): { radii: Radii; locationIds: number[] } => {
+    const [min, max] = normaliseBounds(settings);
+    const distances = distanceMatrix(locations);
+    // Neighbours of each hotspot (itself included) nearest first, for sweeping radii outwards
+    const neighbours = locations.map((_, i) => locations.map((__, j) => j).sort((a, b) => distances[i][a] - distances[i][b]));
+    const covered = new Set<number>();
+    const picked: { index: number; radius: number }[] = [];
+
+    while (picked.length < Math.min(settings.campaignCount, locations.length)) {
+        let best: { index: number; radius: number; gain: number } | null = null;
+        locations.forEach((_, i) => {
+            if (picked.some(site => site.index === i)) return;
+            // The circle can grow until it touches the nearest circle already picked
+            const room = Math.min(max, ...picked.map(site => distances[i][site.index] - site.radius));
+            if (room < min) return;
+
+            let gain = 0;
+            let k = 0;
+            for (let radius = min; radius <= room; radius++) {
+                while (k < neighbours[i].length && distances[i][neighbours[i][k]] <= radius) {
+                    if (!covered.has(neighbours[i][k])) gain += locations[neighbours[i][k]].courierNeed;
+                    k++;
+                }
+                if (!best || gain > best.gain) best = { index: i, radius, gain };
+            }
+        });
+        if (!best) break;
+        const { index, radius } = best;
+        picked.push({ index, radius });
+        neighbours[index].forEach(j => {
+            if (distances[index][j] <= radius) covered.add(j);
+        });
+    }
+
+    const radii: Radii = {};
+    picked.forEach(({ index, radius }) => {
+        radii[locations[index].id] = radius;
+    });
+    return { radii, locationIds: picked.map(({ index }) => locations[index].id) };
+};
+
+export const optimise = (locations: LocationData[], radii: Radii, settings: OptimiseSettings): OptimiseResult => {
+    const allIds = locations.map(loc => loc.id);
+    const before = planCoverage(locations, radii, allIds);
+    if (settings.mode === 'suggest') {
+        const suggested = suggestRadii(locations, settings);
+        return { radii: suggested, locationIds: allIds, before, after: planCoverage(locations, suggested, allIds) };
+    }
+    const campaigns = pickCampaigns(locations, settings);
+    return { ...campaigns, before, after: planCoverage(locations, campaigns.radii, campaigns.locationIds) };
+};
@@ -0,0 +1,37 @@
+import type { LocationData, OutcodeCentroid } from '../types';
+import { OUTCODE_CENTROIDS } from '../data/outcodes';
+import { distanceKm } from './geo';
+
+export interface OutcodeMatch {
+    outcode: string;
+    distanceKm: number;
+}
+
+const OUTCODE_INDEX = new Map(OUTCODE_CENTROIDS.map(centroid => [centroid.outcode, centroid]));
+
+// Matches an outcode ("NG18") or a full postcode ("NG18 1AB", "ng181ab") and captures the outcode
+const POSTCODE_PATTERN = /^([A-Z]{1,2}\d[A-Z\d]?)(?:\s*(\d[A-Z]{2}))?$/;
+
+export const parseOutcode = (text: string): string | null => {
+    const match = text.trim().toUpperCase().match(POSTCODE_PATTERN);
+    return match ? match[1] : null;
+};
+
+// Resolves search text to a bundled outcode centroid, or null when it isn't a known postcode district
+export const lookupOutcode = (text: string): OutcodeCentroid | null => {
+    const outcode = parseOutcode(text);
+    return outcode ? OUTCODE_INDEX.get(outcode) ?? null : null;
+};
+
+export const nearestLocations = (locations: LocationData[], lat: number, lng: number, count: number) =>
+    locations
+        .map(loc => ({ loc, distanceKm: distanceKm(lat, lng, loc.lat, loc.lng) }))
+        .sort((a, b) => a.distanceKm - b.distanceKm)
+        .slice(0, count);
+
+// Outcodes whose centroid falls inside a hotspot's coverage circle, nearest first
+export const outcodesWithinRadius = (loc: LocationData, radiusKm: number): OutcodeMatch[] =>
+    OUTCODE_CENTROIDS
+        .map(({ outcode, lat, lng }) => ({ outcode, distanceKm: distanceKm(loc.lat, loc.lng, lat, lng) }))
+        .filter(match => match.distanceKm <= radiusKm)
+        .sort((a, b) => a.distanceKm - b.distanceKm);
@@ -0,0 +1,69 @@
+import type { LocationData, LocationFilter, LocationSortKey, Radii, RegionGroup } from '../types';
+import { regionLabel } from './budget';
+import { distanceKm } from './geo';
+
+export const UNASSIGNED_REGION = regionLabel('');
+
+export const DEFAULT_LOCATION_FILTER: LocationFilter = { regions: [], minNeed: null, maxNeed: null, ids: null, tags: [] };
+
+export const isFilterActive = (filter: LocationFilter) =>
+    filter.regions.length > 0 || filter.minNeed !== null || filter.maxNeed !== null || filter.ids !== null || filter.tags.length > 0;
+
+export const applyLocationFilter = (locations: LocationData[], { regions, minNeed, maxNeed, ids, tags }: LocationFilter) => {
+    const selected = new Set(regions);
+    const picked = ids ? new Set(ids) : null;
+    const tagged = new Set(tags);
+    return locations.filter(loc =>
+        (selected.size === 0 || selected.has(regionLabel(loc.region)))
+        && (picked === null || picked.has(loc.id))
+        && (tagged.size === 0 || (loc.tags ?? []).some(tag => tagged.has(tag)))
+        && (minNeed === null || loc.courierNeed >= minNeed)
+        && (maxNeed === null || loc.courierNeed <= maxNeed));
+};
+
+// Alphabetical, with "Unassigned" last so it stands out as something to fix
+const compareRegions = (a: string, b: string) =>
+    (a === UNASSIGNED_REGION ? 1 : 0) - (b === UNASSIGNED_REGION ? 1 : 0) || a.localeCompare(b);
+
+// Region labels with their hotspot counts, in region order
+export const regionCounts = (locations: LocationData[]): { region: string; count: number }[] => {
+    const counts = new Map<string, number>();
+    locations.forEach(loc => {
+        const region = regionLabel(loc.region);
+        counts.set(region, (counts.get(region) ?? 0) + 1);
+    });
+    return [...counts.entries()]
+        .map(([region, count]) => ({ region, count }))
+        .sort((a, b) => compareRegions(a.region, b.region));
+};
+
+export const sortLocations = (locations: LocationData[], key: LocationSortKey, center: { lat: number; lng: number }) => {
+    const distances = new Map(locations.map(loc => [loc.id, distanceKm(center.lat, center.lng, loc.lat, loc.lng)]));
+    return [...locations].sort((a, b) => {
+        switch (key) {
+            case 'need':
+                return b.courierNeed - a.courierNeed || a.city.localeCompare(b.city);
+            case 'name':
+                return a.city.localeCompare(b.city);
+            case 'distance':
+                return (distances.get(a.id) as number) - (distances.get(b.id) as number);
+        }
+    });
+};
+
+// Groups already-sorted locations by region, keeping their order within each group
+export const groupByRegion = (locations: LocationData[], radii: Radii, defaultRadius: number): RegionGroup[] => {
+    const groups = new Map<string, LocationData[]>();
+    locations.forEach(loc => {
+        const region = regionLabel(loc.region);
+        groups.set(region, [...(groups.get(region) ?? []), loc]);
+    });
+    return [...groups.entries()]
+        .sort(([a], [b]) => compareRegions(a, b))
+        .map(([region, members]) => ({
+            region,
+            locations: members,
+            courierNeed: members.reduce((sum, loc) => sum + loc.courierNeed, 0),
+            averageRadius: members.reduce((sum, loc) => sum + (radii[loc.id] ?? defaultRadius), 0) / members.length,
+        }));
+};
@@ -0,0 +1,87 @@
+import type { LocationData, Scenario, ScenarioSettings } from '../types';
+import { circleAreaKm2 } from './geo';
+import { coveredNeed } from './coverage';
+import { isRecord } from './guards';
+import { sanitizeMapState } from './mapState';
+
+const STORAGE_KEY = 'uk-courier-hotspots:scenarios';
+
+export interface ScenarioDiffRow {
+    location: LocationData;
+    radiusA: number;
+    radiusB: number;
+    areaA: number;
+    areaB: number;
+    coveredNeedA: number;
+    coveredNeedB: number;
+}
+
+export const createScenarioId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createScenario = (name: string, settings: ScenarioSettings): Scenario => ({
+    id: createScenarioId(),
+    name,
+    createdAt: new Date().toISOString(),
+    settings: { ...settings, radii: { ...settings.radii } },
+});
+
+// A scenario saved without zones matches whatever zones are drawn, since applying it leaves them alone
+export const scenarioMatches = (scenario: Scenario, settings: ScenarioSettings) =>
+    JSON.stringify({ ...scenario.settings, zones: scenario.settings.zones ?? settings.zones }) === JSON.stringify(settings);
+
+// Stored scenarios are validated field by field like the rest of the saved state; broken entries are dropped
+export const loadScenarios = (): Scenario[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+        if (!Array.isArray(stored)) return [];
+        return stored.flatMap((entry: unknown): Scenario[] => {
+            if (!isRecord(entry)) return [];
+            const settings = sanitizeMapState(entry.settings);
+            if (typeof entry.id !== 'string' || typeof entry.name !== 'string' || !settings.radii
+                || settings.isSynced === undefined || settings.uniformRadius === undefined || settings.showLabels === undefined
+                || settings.showHeatmap === undefined || settings.isClusteringEnabled === undefined) {
+                return [];
+            }
+            return [{
+                id: entry.id,
+                name: entry.name,
+                createdAt: typeof entry.createdAt === 'string' ? entry.createdAt : new Date().toISOString(),
+                settings: {
+                    radii: settings.radii,
+                    isSynced: settings.isSynced,
+                    uniformRadius: settings.uniformRadius,
+                    showLabels: settings.showLabels,
+                    showHeatmap: settings.showHeatmap,
+                    isClusteringEnabled: settings.isClusteringEnabled,
+                    ...(settings.zones ? { zones: settings.zones } : {}),
+                },
+            }];
+        });
+    } catch {
+        return [];
+    }
+};
+
+export const saveScenarios = (scenarios: Scenario[]) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(scenarios));
+    } catch {
+        // Persistence is best-effort, as for the rest of the saved state
+    }
+};
+
+// Per-hotspot comparison of two scenarios; hotspots missing a radius in a scenario fall back to the given default
+export const diffScenarios = (locations: LocationData[], a: Scenario, b: Scenario, defaultRadius: number): ScenarioDiffRow[] =>
+    locations.map(location => {
+        const radiusA = a.settings.radii[location.id] ?? defaultRadius;
+        const radiusB = b.settings.radii[location.id] ?? defaultRadius;
+        return {
+            location,
+            radiusA,
+            radiusB,
+            areaA: circleAreaKm2(radiusA),
+            areaB: circleAreaKm2(radiusB),
+            coveredNeedA: coveredNeed(location, radiusA, locations),
+            coveredNeedB: coveredNeed(location, radiusB, locations),
+        };
+    });
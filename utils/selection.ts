@@ -0,0 +1,29 @@
+import type { LocationData, Radii } from '../types';
+import { DEFAULT_RADIUS_KM } from '../constants';
+import { pointInPolygon } from './geo';
+import { clampRadiusKm, roundTo } from './units';
+
+const KM_PER_DEG_LAT = 111.32;
+
+// Hotspots inside a box or lasso drawn on the map, given as [lat, lng] vertices
+export const locationsInShape = (locations: LocationData[], points: [number, number][]) =>
+    locations.filter(loc => pointInPolygon(loc.lat, loc.lng, points));
+
+// New radii for the given hotspots, each scaled to `percent` of its current size and kept within the slider range
+export const scaleRadii = (radii: Radii, ids: number[], percent: number): Radii =>
+    Object.fromEntries(ids.map(id => [id, roundTo(clampRadiusKm((radii[id] ?? DEFAULT_RADIUS_KM) * percent / 100), 2)]));
+
+// South-west and north-east corners enclosing the hotspots' circles, for zooming to a selection
+export const coverageBounds = (locations: LocationData[], radii: Radii): [[number, number], [number, number]] | null => {
+    if (locations.length === 0) return null;
+    const corners = locations.map(loc => {
+        const radius = radii[loc.id] ?? DEFAULT_RADIUS_KM;
+        const dLat = radius / KM_PER_DEG_LAT;
+        const dLng = radius / (KM_PER_DEG_LAT * Math.cos(loc.lat * Math.PI / 180));
+        return { south: loc.lat - dLat, west: loc.lng - dLng, north: loc.lat + dLat, east: loc.lng + dLng };
+    });
+    return [
+        [Math.min(...corners.map(c => c.south)), Math.min(...corners.map(c => c.west))],
+        [Math.max(...corners.map(c => c.north)), Math.max(...corners.map(c => c.east))],
+    ];
+};
@@ -0,0 +1,36 @@
+import type { LocationData } from '../types';
+
+const MAX_TAG_LENGTH = 40;
+
+// Trims and collapses whitespace so "Phase  1 " and "Phase 1" are the same tag; empty text gives null
+export const normaliseTag = (text: string): string | null => {
+    const tag = text.trim().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH);
+    return tag === '' ? null : tag;
+};
+
+// Tags from an import cell or export field, separated by semicolons or commas
+export const parseTags = (text: string): string[] =>
+    [...new Set(text.split(/[;,]/).map(normaliseTag).filter((tag): tag is string => tag !== null))];
+
+export const formatTags = (tags: string[] | undefined) => (tags ?? []).join('; ');
+
+export const hasTag = (loc: LocationData, tag: string) => loc.tags?.includes(tag) ?? false;
+
+// Returns the same object when nothing changes, so untouched hotspots don't show up as edits
+export const withTag = (loc: LocationData, tag: string): LocationData =>
+    hasTag(loc, tag) ? loc : { ...loc, tags: [...(loc.tags ?? []), tag] };
+
+export const withoutTag = (loc: LocationData, tag: string): LocationData => {
+    if (!hasTag(loc, tag)) return loc;
+    const tags = (loc.tags ?? []).filter(existing => existing !== tag);
+    return { ...loc, tags: tags.length > 0 ? tags : undefined };
+};
+
+// Every tag in use with the number of hotspots carrying it, alphabetically
+export const tagCounts = (locations: LocationData[]): { tag: string; count: number }[] => {
+    const counts = new Map<string, number>();
+    locations.forEach(loc => loc.tags?.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+    return [...counts.entries()]
+        .map(([tag, count]) => ({ tag, count }))
+        .sort((a, b) => a.tag.localeCompare(b.tag));
+};
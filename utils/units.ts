@@ -0,0 +1,90 @@
+import type { DistanceUnit, RadiusPreset } from '../types';
+import { MAX_RADIUS_KM, MIN_RADIUS_KM } from '../constants';
+import { isRecord } from './guards';
+
+const UNIT_KEY = 'uk-courier-hotspots:unit';
+const PRESETS_KEY = 'uk-courier-hotspots:radius-presets';
+
+export const KM_PER_MILE = 1.609344;
+
+export const UNIT_OPTIONS: { unit: DistanceUnit; label: string }[] = [
+    { unit: 'km', label: 'Kilometres' },
+    { unit: 'mi', label: 'Miles' },
+];
+
+export const toUnit = (km: number, unit: DistanceUnit) => (unit === 'mi' ? km / KM_PER_MILE : km);
+
+// Radii entered in miles are stored in km to two decimals, which round-trips to the same miles at one decimal
+export const fromUnit = (value: number, unit: DistanceUnit) =>
+    (unit === 'mi' ? Math.round(value * KM_PER_MILE * 100) / 100 : value);
+
+export const areaToUnit = (km2: number, unit: DistanceUnit) => (unit === 'mi' ? km2 / (KM_PER_MILE * KM_PER_MILE) : km2);
+
+export const areaUnitLabel = (unit: DistanceUnit) => (unit === 'mi' ? 'sq mi' : 'km²');
+
+// Up to `digits` decimals, without trailing zeros: 10 km, 6.2 mi
+export const roundTo = (value: number, digits = 1) => Number(value.toFixed(digits));
+
+export const formatDistance = (km: number, unit: DistanceUnit, digits = 1) => `${roundTo(toUnit(km, unit), digits)} ${unit}`;
+
+export const formatArea = (km2: number, unit: DistanceUnit, digits = 0) =>
+    `${areaToUnit(km2, unit).toLocaleString(undefined, { maximumFractionDigits: digits })} ${areaUnitLabel(unit)}`;
+
+// Radius slider bounds in the display unit, kept inside the km limits the rest of the app validates against
+export const radiusRange = (unit: DistanceUnit) => (unit === 'mi'
+    ? { min: 1, max: Math.floor(toUnit(MAX_RADIUS_KM, 'mi')), step: 0.5 }
+    : { min: MIN_RADIUS_KM, max: MAX_RADIUS_KM, step: 1 });
+
+export const clampRadiusKm = (km: number) => Math.min(MAX_RADIUS_KM, Math.max(MIN_RADIUS_KM, km));
+
+export const loadDistanceUnit = (): DistanceUnit => {
+    try {
+        return localStorage.getItem(UNIT_KEY) === 'mi' ? 'mi' : 'km';
+    } catch {
+        return 'km';
+    }
+};
+
+export const saveDistanceUnit = (unit: DistanceUnit) => {
+    try {
+        localStorage.setItem(UNIT_KEY, unit);
+    } catch {
+        // Persistence is best-effort, as for the rest of the saved state
+    }
+};
+
+export const DEFAULT_RADIUS_PRESETS: RadiusPreset[] = [
+    { id: 'urban', name: 'Urban', radiusKm: fromUnit(5, 'mi') },
+    { id: 'suburban', name: 'Suburban', radiusKm: fromUnit(10, 'mi') },
+    { id: 'rural', name: 'Rural', radiusKm: fromUnit(15, 'mi') },
+];
+
+export const createRadiusPreset = (name: string, radiusKm: number): RadiusPreset => ({
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    radiusKm: clampRadiusKm(radiusKm),
+});
+
+// Stored presets are validated like the rest of the saved state; malformed entries are dropped
+export const loadRadiusPresets = (): RadiusPreset[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(PRESETS_KEY) ?? 'null');
+        if (!Array.isArray(stored)) return DEFAULT_RADIUS_PRESETS;
+        return stored.flatMap((entry: unknown): RadiusPreset[] => (
+            isRecord(entry) && typeof entry.id === 'string' && typeof entry.name === 'string'
+                && typeof entry.radiusKm === 'number' && entry.radiusKm >= MIN_RADIUS_KM && entry.radiusKm <= MAX_RADIUS_KM
+                ? [{ id: entry.id, name: entry.name, radiusKm: entry.radiusKm }]
+                : []
+        ));
+    } catch {
+        return DEFAULT_RADIUS_PRESETS;
+    }
+};
+
+export const saveRadiusPresets = (presets: RadiusPreset[]) => {
+    try {
+        localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+    } catch {
+        // Persistence is best-effort, as for the rest of the saved state
+    }
+};
@@ -0,0 +1,102 @@
+import type { DistanceUnit, LocationData, Zone, ZoneKind, ZoneStats } from '../types';
+import { pointInPolygon, polygonAreaKm2 } from './geo';
+import { isRecord } from './guards';
+import { areaToUnit, roundTo } from './units';
+
+const STORAGE_KEY = 'uk-courier-hotspots:zones';
+
+const roundCoord = (value: number) => Math.round(value * 1e6) / 1e6;
+
+export const createZone = (kind: ZoneKind, points: [number, number][], existing: Zone[]): Zone => ({
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: `Zone ${existing.length + 1}`,
+    kind,
+    points: points.map(([lat, lng]) => [roundCoord(lat), roundCoord(lng)]),
+    locationId: null,
+    replacesCircle: false,
+});
+
+export const zoneStats = (zone: Zone, locations: LocationData[]): ZoneStats => {
+    const inside = locations.filter(loc => pointInPolygon(loc.lat, loc.lng, zone.points));
+    return {
+        areaKm2: polygonAreaKm2(zone.points),
+        locations: inside,
+        courierNeed: inside.reduce((sum, loc) => sum + loc.courierNeed, 0),
+    };
+};
+
+// Zones standing in for a hotspot's circle, keyed by hotspot id (the first such zone wins)
+export const coverageZones = (zones: Zone[]): Map<number, Zone> => {
+    const byLocation = new Map<number, Zone>();
+    zones.forEach(zone => {
+        if (zone.replacesCircle && zone.locationId !== null && !byLocation.has(zone.locationId)) {
+            byLocation.set(zone.locationId, zone);
+        }
+    });
+    return byLocation;
+};
+
+// Closed GeoJSON ring in [lng, lat] order
+export const zoneRing = (zone: Zone): [number, number][] => {
+    const ring = zone.points.map(([lat, lng]): [number, number] => [lng, lat]);
+    return [...ring, ring[0]];
+};
+
+export const buildZonesGeoJson = (zones: Zone[], locations: LocationData[], unit: DistanceUnit = 'km') => {
+    const features = zones.map(zone => {
+        const stats = zoneStats(zone, locations);
+        const linked = locations.find(loc => loc.id === zone.locationId);
+        return {
+            type: 'Feature',
+            properties: {
+                id: zone.id,
+                name: zone.name,
+                kind: zone.kind,
+                locationId: zone.locationId,
+                city: linked?.city ?? null,
+                replacesCircle: zone.replacesCircle,
+                areaKm2: Math.round(stats.areaKm2 * 10) / 10,
+                ...(unit === 'mi' ? { areaSqMi: roundTo(areaToUnit(stats.areaKm2, 'mi')) } : {}),
+                hotspots: stats.locations.map(loc => loc.city),
+                courierNeed: stats.courierNeed,
+            },
+            geometry: { type: 'Polygon', coordinates: [zoneRing(zone)] },
+        };
+    });
+    return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+};
+
+const isLatLng = (value: unknown): value is [number, number] =>
+    Array.isArray(value) && value.length === 2
+    && Number.isFinite(value[0]) && Number.isFinite(value[1])
+    && Math.abs(value[0]) <= 90 && Math.abs(value[1]) <= 180;
+
+// Keeps the well-formed zones of an untrusted list (stored JSON, an embedding page's plan); malformed entries are dropped
+export const sanitizeZones = (raw: unknown): Zone[] => {
+    if (!Array.isArray(raw)) return [];
+    return raw.flatMap((entry: unknown): Zone[] => {
+        if (!isRecord(entry) || typeof entry.id !== 'string' || typeof entry.name !== 'string'
+            || (entry.kind !== 'polygon' && entry.kind !== 'rectangle')
+            || !Array.isArray(entry.points) || entry.points.length < 3 || !entry.points.every(isLatLng)) {
+            return [];
+        }
+        const locationId = typeof entry.locationId === 'number' && Number.isInteger(entry.locationId) ? entry.locationId : null;
+        return [{
+            id: entry.id,
+            name: entry.name,
+            kind: entry.kind,
+            points: entry.points,
+            locationId,
+            replacesCircle: locationId !== null && entry.replacesCircle === true,
+        }];
+    });
+};
+
+// Zones saved before they became part of the map state, validated like the rest of the saved state
+export const loadZones = (): Zone[] => {
+    try {
+        return sanitizeZones(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]'));
+    } catch {
+        return [];
+    }
+};
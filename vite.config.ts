@@ -1,11 +1,29 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import tailwindcss from '@tailwindcss/vite';
+
+// Writes the hashed bundles of this build into the service worker's precache list, so the first full load
+// caches everything the app needs offline instead of only what that visit happened to request
+const precacheBuildAssets = (): Plugin => ({
+    name: 'precache-build-assets',
+    apply: 'build',
+    writeBundle(options, bundle) {
+        const swPath = path.join(options.dir ?? 'dist', 'sw.js');
+        if (!fs.existsSync(swPath)) return;
+        const assets = Object.keys(bundle)
+            .filter(fileName => fileName !== 'index.html' && !fileName.endsWith('.map'))
+            .map(fileName => `/${fileName}`);
+        const source = fs.readFileSync(swPath, 'utf8');
+        fs.writeFileSync(swPath, source.replace('const BUILD_ASSETS = [];', `const BUILD_ASSETS = ${JSON.stringify(assets)};`));
+    },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
-      plugins: [react()],
+      plugins: [react(), tailwindcss(), precacheBuildAssets()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)